@@ -6,11 +6,13 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
-import { formatEther } from 'viem';
+import { formatEther, parseEther, toFunctionSignature } from 'viem';
 import { HeadlessWallet } from './cli/HeadlessWallet';
 import { ViemContractAnalyzer, type ContractInfo } from './core/ViemContractAnalyzer';
 import { ViemMintingEngine } from './core/ViemMintingEngine';
 import { CHAINS } from './config/chains';
+import { knownAbi } from './core/AbiLoader';
+import { resolveAbiFunction, splitArgs, parseAbiArgs, formatAbiResult } from './utils/abiArgs';
 import { pingMultiple, getLatencyColor } from './utils/ping';
 
 // ANSI Colors
@@ -136,6 +138,9 @@ async function main() {
                 log('  load <addr>     Load NFT contract');
                 log('  mint <qty>      Mint N tokens');
                 log('  mint <qty> -t   Turbo mode (fast)');
+                log('  read <fn> ..    Call a view function');
+                log('  call <fn> ..    Simulate from wallet (--value ETH)');
+                log('  send <fn> ..    Send any write (--value ETH)');
                 log('  network <id>    Switch chain');
                 log('  networks        List chains');
                 log('  config          Show current config');
@@ -193,14 +198,27 @@ async function main() {
                     error('Invalid address. Usage: load 0x...');
                 } else {
                     info(`Analyzing ${addr}...`);
-                    currentContract = await analyzer!.analyze(addr);
+                    currentContract = await analyzer!.analyze(addr, undefined, wallet.address || undefined);
                     log('');
                     log(`${colors.bold}  TARGET ACQUIRED${colors.reset}`);
                     log(`${colors.gray}  ─────────────────────────────${colors.reset}`);
                     log(`  Name:     ${currentContract.name}`);
                     log(`  Price:    ${formatEther(currentContract.mintPrice)} ETH`);
-                    log(`  Active:   ${currentContract.isActive ? 'Yes' : 'No'}`);
-                    log(`  Supply:   ${currentContract.currentSupply} / ${currentContract.maxSupply}`);
+                    if (currentContract.discoveredPrice !== undefined && currentContract.discoveredPrice !== currentContract.mintPrice) {
+                        warn(`Simulation accepts ${formatEther(currentContract.discoveredPrice)} ETH - getter price looks wrong`);
+                    }
+                    const sources = currentContract.saleSources || {};
+                    const from = (field: string) => sources[field] ? `${colors.gray} (${sources[field]})${colors.reset}` : '';
+                    log(`  Active:   ${currentContract.isActive ? 'Yes' : 'No'}${from('isActive')}`);
+                    if (currentContract.phase) log(`  Phase:    ${currentContract.phase}${from('requiresAllowlist')}`);
+                    if (currentContract.requiresAllowlist) warn('Allowlist-only phase - a public mint will likely revert');
+                    log(`  Supply:   ${currentContract.currentSupply} / ${currentContract.maxSupply}${from('maxSupply')}`);
+                    if (currentContract.maxPerTx) log(`  Per Tx:   ${currentContract.maxPerTx}${from('maxPerTx')}`);
+                    if (currentContract.maxPerWallet) log(`  Per Wallet: ${currentContract.maxPerWallet}${from('maxPerWallet')}`);
+                    log(`  Mint:     ${currentContract.mintFunction}`);
+                    for (const probe of currentContract.mintProbes || []) {
+                        log(`${colors.gray}    ${probe.ok ? '✓' : '✖'} ${probe.signature}${probe.reason ? ` - ${probe.reason}` : ''}${colors.reset}`);
+                    }
                     log('');
                 }
             }
@@ -234,6 +252,50 @@ async function main() {
                     }
                 }
             }
+            else if (cmd === 'read' || cmd === 'call' || cmd === 'send') {
+                if (!currentContract) {
+                    error('No contract loaded. Use: load <address>');
+                } else if (!args[0]) {
+                    info(`Usage: ${cmd} <name|signature> [args...]${cmd === 'read' ? '' : ' [--value ETH]'}`);
+                } else if (cmd !== 'read' && !wallet.address) {
+                    error('No wallet configured. Add privateKey to config.json');
+                } else {
+                    // --value ETH may sit anywhere after the function
+                    const valueAt = args.indexOf('--value');
+                    const value = valueAt >= 0 ? parseEther(args[valueAt + 1] || '0') : BigInt(0);
+                    const rest = valueAt >= 0 ? [...args.slice(1, valueAt), ...args.slice(valueAt + 2)] : args.slice(1);
+
+                    const values = splitArgs(rest.join(' '));
+                    const fn = resolveAbiFunction(args[0], knownAbi(currentChainId, currentContract.address), values.length);
+                    const callArgs = parseAbiArgs(fn, values, { qty: 1, me: wallet.address || '' });
+                    if (value > BigInt(0) && fn.stateMutability !== 'payable') {
+                        throw new Error(`${fn.name} is ${fn.stateMutability} - it can't take --value`);
+                    }
+
+                    info(`${cmd === 'send' ? 'Sending' : 'Calling'} ${toFunctionSignature(fn)}${value ? ` with ${formatEther(value)} ETH` : ''}`);
+                    const to = currentContract.address as `0x${string}`;
+
+                    if (cmd === 'send') {
+                        const gasSettings = await engine!.getGasPrice();
+                        await engine!.prepareCall({ to, abi: [fn], functionName: fn.name, args: callArgs, value }, gasSettings);
+                        const hash = await engine!.execute();
+                        success(`TX: ${hash}`);
+
+                        info('Waiting for confirmation...');
+                        const receipt = await engine!.waitForReceipt(hash);
+                        if (receipt.status === 'success') {
+                            success(`Confirmed in block ${receipt.blockNumber}`);
+                        } else {
+                            error('Transaction reverted!');
+                        }
+                    } else {
+                        const result = await engine!.callFunction(to, fn, callArgs, value, cmd === 'call');
+                        log('');
+                        formatAbiResult(fn, result).forEach(line => log(`  ${colors.green}→${colors.reset} ${line}`));
+                        log('');
+                    }
+                }
+            }
             else if (cmd === 'config') {
                 log('');
                 log(`${colors.bold}  CONFIG${colors.reset}`);
@@ -0,0 +1,47 @@
+/**
+ * ABI Storage Utility
+ * Caches contract ABIs per chain/address (verified from an explorer, or imported)
+ */
+import type { Abi } from 'viem';
+
+export interface StoredAbi {
+    abi: Abi;
+    source: 'explorer' | 'import';
+    // Set when the contract is a proxy and the ABI includes its implementation's
+    implementation?: string;
+    savedAt: number;
+}
+
+const abiKey = (chainId: number, address: string) => `pelz_abi_${chainId}_${address.toLowerCase()}`;
+
+/**
+ * Get the cached ABI for a contract
+ */
+export function getStoredAbi(chainId: number, address: string): StoredAbi | null {
+    try {
+        const data = localStorage.getItem(abiKey(chainId, address));
+        return data ? JSON.parse(data) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Cache an ABI for a contract
+ */
+export function saveAbi(chainId: number, address: string, entry: StoredAbi): void {
+    try {
+        localStorage.setItem(abiKey(chainId, address), JSON.stringify(entry));
+    } catch {
+        // No storage (headless) - the ABI is still used for this session
+    }
+}
+
+/**
+ * Drop the cached ABI for a contract
+ */
+export function removeAbi(chainId: number, address: string): boolean {
+    if (!getStoredAbi(chainId, address)) return false;
+    localStorage.removeItem(abiKey(chainId, address));
+    return true;
+}
@@ -1,3 +1,5 @@
+import { parseAbi } from 'viem';
+
 export const UNIVERSAL_ABI = [
     // ERC721 Standard Read
     "function name() view returns (string)",
@@ -18,6 +20,9 @@ export const UNIVERSAL_ABI = [
     "function value() view returns (uint256)",
     "function paused() view returns (bool)",
     "function isAllowlistActive() view returns (bool)",
+    "function presaleActive() view returns (bool)",
+    "function onlyWhitelisted() view returns (bool)",
+    "function merkleRoot() view returns (bytes32)",
     "function isActive() view returns (bool)",
     "function saleActive() view returns (bool)",
     "function maxPerWallet() view returns (uint256)",
@@ -36,3 +41,26 @@ export const UNIVERSAL_ABI = [
     // Events
     "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)"
 ];
+
+// ERC20 payment tokens (approve-then-mint flows)
+export const ERC20_ABI = parseAbi([
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'function balanceOf(address owner) view returns (uint256)',
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function approve(address spender, uint256 amount) returns (bool)',
+] as const);
+
+// ERC-165 interface detection
+export const ERC165_ABI = parseAbi([
+    'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+] as const);
+
+export const ERC1155_INTERFACE_ID = '0xd9b67a26';
+
+// Token transfers, for counting what a mint receipt minted (ERC721 and ERC1155)
+export const TRANSFER_EVENTS_ABI = parseAbi([
+    'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+    'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+    'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
+] as const);
@@ -0,0 +1,92 @@
+/**
+ * Allowlist Storage Utility
+ * Merkle proofs built from imported allowlists, per contract, stage and wallet
+ */
+
+/**
+ * A wallet's proof and the stage parameters it is minted with
+ */
+export interface StoredProof {
+    stage: string;
+    proof: `0x${string}`[];
+    mintParams?: Record<string, string | number | boolean>;
+    mintIndex?: number;
+}
+
+export interface StoredAllowlist {
+    stage: string;
+    // Root computed from the list, and whether it matched the one on-chain (unset when none was readable)
+    root: `0x${string}`;
+    matched?: boolean;
+    layout: string;
+    entries: number;
+    importedAt: number;
+    // Wallet (lowercased) -> proof
+    proofs: Record<string, StoredProof>;
+}
+
+// chainId:contract -> lists, one per stage
+type AllowlistStore = Record<string, StoredAllowlist[]>;
+
+const ALLOWLISTS_KEY = 'pelz_allowlists';
+
+function allowlistKey(chainId: number, contract: string): string {
+    return `${chainId}:${contract.toLowerCase()}`;
+}
+
+function getStore(): AllowlistStore {
+    try {
+        const data = localStorage.getItem(ALLOWLISTS_KEY);
+        return data ? JSON.parse(data) : {};
+    } catch {
+        return {};
+    }
+}
+
+function saveStore(store: AllowlistStore): void {
+    try {
+        localStorage.setItem(ALLOWLISTS_KEY, JSON.stringify(store));
+    } catch {
+        // No storage (headless) - proofs last for this session only
+    }
+}
+
+/**
+ * Get the imported allowlists for a contract
+ */
+export function getAllowlists(chainId: number, contract: string): StoredAllowlist[] {
+    return getStore()[allowlistKey(chainId, contract)] || [];
+}
+
+/**
+ * Store an allowlist, replacing any imported for the same stage
+ */
+export function saveAllowlist(chainId: number, contract: string, allowlist: StoredAllowlist): void {
+    const store = getStore();
+    const key = allowlistKey(chainId, contract);
+    store[key] = [...(store[key] || []).filter(list => list.stage !== allowlist.stage), allowlist];
+    saveStore(store);
+}
+
+/**
+ * Remove every imported allowlist for a contract
+ */
+export function clearAllowlists(chainId: number, contract: string): number {
+    const store = getStore();
+    const key = allowlistKey(chainId, contract);
+    const count = (store[key] || []).length;
+    delete store[key];
+    saveStore(store);
+    return count;
+}
+
+/**
+ * Get a wallet's stored proof for a contract, preferring lists whose root matched on-chain.
+ * Lists whose root differs from the on-chain one are skipped: their proofs can't verify.
+ */
+export function getStoredProof(chainId: number, contract: string, wallet: string, stages?: string[]): StoredProof | undefined {
+    const lists = getAllowlists(chainId, contract)
+        .filter(list => list.matched !== false && (!stages || stages.includes(list.stage)))
+        .sort((a, b) => Number(!!b.matched) - Number(!!a.matched) || b.importedAt - a.importedAt);
+    return lists.map(list => list.proofs[wallet.toLowerCase()]).find(Boolean);
+}
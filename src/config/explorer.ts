@@ -0,0 +1,97 @@
+/**
+ * Block Explorer API Utility
+ * Etherscan-compatible contract API, derived from the network's explorer URL
+ */
+import type { Abi } from 'viem';
+import { NETWORKS } from './networks';
+
+const EXPLORER_KEY_KEY = 'pelz_explorer_key';
+const explorerApiKey = (chainId: number) => `pelz_explorer_api_${chainId}`;
+
+function readSetting(key: string): string | null {
+    try {
+        return localStorage.getItem(key);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Get the configured API base for a chain (overrides the derived one)
+ */
+export function getCustomExplorerApi(chainId: number): string | null {
+    return readSetting(explorerApiKey(chainId));
+}
+
+/**
+ * Set or clear (empty url) the API base for a chain
+ */
+export function setCustomExplorerApi(chainId: number, url: string): void {
+    if (!url) {
+        localStorage.removeItem(explorerApiKey(chainId));
+    } else {
+        localStorage.setItem(explorerApiKey(chainId), url);
+    }
+}
+
+/**
+ * Get the explorer API key (shared by every chain)
+ */
+export function getExplorerKey(): string {
+    return readSetting(EXPLORER_KEY_KEY) || '';
+}
+
+/**
+ * Set or clear (empty key) the explorer API key
+ */
+export function setExplorerKey(key: string): void {
+    if (!key) {
+        localStorage.removeItem(EXPLORER_KEY_KEY);
+    } else {
+        localStorage.setItem(EXPLORER_KEY_KEY, key);
+    }
+}
+
+/**
+ * API base for a chain: the configured override, else derived from the explorer URL.
+ * Etherscan-family explorers share the multichain V2 endpoint (selected by chainid),
+ * anything else (Blockscout) serves it on /api of the same host.
+ */
+export function getExplorerApiUrl(chainId: number): string | undefined {
+    const custom = getCustomExplorerApi(chainId);
+    if (custom) return custom;
+
+    const network = Object.values(NETWORKS).find(n => n.id === chainId);
+    if (!network) return undefined;
+
+    const url = new URL(network.explorer);
+    if (!url.hostname.includes('scan')) return `${url.origin}/api`;
+
+    return `https://api.etherscan.io/v2/api?chainid=${chainId}`;
+}
+
+/**
+ * Fetch a verified ABI with module=contract&action=getabi
+ */
+export async function fetchExplorerAbi(chainId: number, address: string): Promise<Abi> {
+    const api = getExplorerApiUrl(chainId);
+    if (!api) {
+        throw new Error(`No explorer API known for chain ${chainId}. Set one with 'config explorer <url>'`);
+    }
+
+    const params = new URLSearchParams({ module: 'contract', action: 'getabi', address });
+    const key = getExplorerKey();
+    if (key) params.set('apikey', key);
+
+    const response = await fetch(`${api}${api.includes('?') ? '&' : '?'}${params}`);
+    if (!response.ok) {
+        throw new Error(`Explorer API error: HTTP ${response.status}`);
+    }
+
+    const body = await response.json() as { status?: string; message?: string; result?: string };
+    if (body.status !== '1' || !body.result) {
+        throw new Error(`Explorer: ${body.result || body.message || 'no ABI returned'}`);
+    }
+
+    return JSON.parse(body.result) as Abi;
+}
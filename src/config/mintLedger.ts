@@ -0,0 +1,97 @@
+/**
+ * Mint Ledger Utility
+ * Records what our wallets paid per contract. Mints are recorded when sent and settled
+ * from their receipts later, so fire-and-forget snipes are tracked too.
+ */
+
+export interface LedgerEntry {
+    quantity: number;
+    paid: string;       // wei, as a decimal string
+    txs: string[];      // settled mints
+    pending?: Record<string, number>;  // sent, not yet settled: tx hash -> quantity asked for
+    refundTx?: string;  // set once the refund has been claimed
+}
+
+// chainId:contract -> wallet -> entry (addresses lowercased)
+type LedgerStore = Record<string, Record<string, LedgerEntry>>;
+
+const LEDGER_KEY = 'pelz_mint_ledger';
+
+function ledgerKey(chainId: number, contract: string): string {
+    return `${chainId}:${contract.toLowerCase()}`;
+}
+
+function getStore(): LedgerStore {
+    try {
+        const data = localStorage.getItem(LEDGER_KEY);
+        return data ? JSON.parse(data) : {};
+    } catch {
+        return {};
+    }
+}
+
+function saveStore(store: LedgerStore): void {
+    try {
+        localStorage.setItem(LEDGER_KEY, JSON.stringify(store));
+    } catch {
+        // No storage (headless) or quota reached - the mint itself already confirmed
+    }
+}
+
+/**
+ * Get every wallet's entry for a contract
+ */
+export function getLedger(chainId: number, contract: string): Record<string, LedgerEntry> {
+    return getStore()[ledgerKey(chainId, contract)] || {};
+}
+
+function updateEntry(chainId: number, contract: string, wallet: string, update: (entry: LedgerEntry) => LedgerEntry): void {
+    const store = getStore();
+    const key = ledgerKey(chainId, contract);
+    const wallets = store[key] || {};
+    const entry = wallets[wallet.toLowerCase()] || { quantity: 0, paid: '0', txs: [] };
+
+    wallets[wallet.toLowerCase()] = update(entry);
+    store[key] = wallets;
+    saveStore(store);
+}
+
+/**
+ * Record a mint as soon as it is sent; it counts once settled from its receipt
+ */
+export function recordSentMint(chainId: number, contract: string, wallet: string, quantity: number, txHash: string): void {
+    updateEntry(chainId, contract, wallet, entry => entry.txs.includes(txHash)
+        ? entry
+        : { ...entry, pending: { ...entry.pending, [txHash]: quantity } });
+}
+
+/**
+ * Settle a sent mint from its receipt: add what it minted and paid, or drop it when it reverted
+ */
+export function settleMint(chainId: number, contract: string, wallet: string, txHash: string, minted?: { quantity: number; paid: bigint }): void {
+    updateEntry(chainId, contract, wallet, entry => {
+        const pending = { ...entry.pending };
+        delete pending[txHash];
+        if (!minted || entry.txs.includes(txHash)) return { ...entry, pending };
+
+        return {
+            ...entry,
+            pending,
+            quantity: entry.quantity + minted.quantity,
+            paid: (BigInt(entry.paid) + minted.paid).toString(),
+            txs: [...entry.txs, txHash],
+        };
+    });
+}
+
+/**
+ * Mark a wallet's refund as claimed
+ */
+export function recordRefund(chainId: number, contract: string, wallet: string, txHash: string): void {
+    const store = getStore();
+    const entry = store[ledgerKey(chainId, contract)]?.[wallet.toLowerCase()];
+    if (!entry) return;
+
+    entry.refundTx = txHash;
+    saveStore(store);
+}
@@ -0,0 +1,53 @@
+/**
+ * Mint Signature Dictionary
+ * Known public mint functions, most common first. Matched against the selectors found
+ * in a contract's bytecode to pick the mint function without an ABI.
+ */
+
+export interface MintSignature {
+    signature: string;
+    // Needs data we can't fill with a quantity/wallet alone (proof, signature)
+    gated?: 'allowlist' | 'signature';
+}
+
+export const MINT_SIGNATURES: MintSignature[] = [
+    // Quantity only
+    { signature: 'mint(uint256)' },
+    { signature: 'publicMint(uint256)' },
+    { signature: 'mintPublic(uint256)' },
+    { signature: 'publicSaleMint(uint256)' },
+    { signature: 'purchase(uint256)' },
+    { signature: 'mintDutch(uint256)' },
+    { signature: 'auctionMint(uint256)' },
+    { signature: 'mintNFT(uint256)' },
+    { signature: 'mintNFTs(uint256)' },
+    { signature: 'buy(uint256)' },
+    { signature: 'claim(uint256)' },
+    { signature: 'freeMint(uint256)' },
+    { signature: 'mint(uint32)' },
+    { signature: 'mint(uint8)' },
+
+    // Receiver + quantity
+    { signature: 'mint(address,uint256)' },
+    { signature: 'mintTo(address,uint256)' },
+    { signature: 'publicMint(address,uint256)' },
+    { signature: 'purchase(address,uint256)' },
+    { signature: 'safeMint(address,uint256)' },
+    { signature: 'mint(uint256,address)' },
+
+    // No arguments (one per call)
+    { signature: 'mint()' },
+    { signature: 'publicMint()' },
+    { signature: 'claim()' },
+    { signature: 'freeMint()' },
+    { signature: 'safeMint(address)' },
+
+    // Allowlist / signed variants - shown, never chosen automatically
+    { signature: 'whitelistMint(uint256,bytes32[])', gated: 'allowlist' },
+    { signature: 'allowlistMint(uint256,bytes32[])', gated: 'allowlist' },
+    { signature: 'presaleMint(uint256,bytes32[])', gated: 'allowlist' },
+    { signature: 'mint(uint256,bytes32[])', gated: 'allowlist' },
+    { signature: 'mintAllowList(uint256,bytes32[])', gated: 'allowlist' },
+    { signature: 'mint(uint256,bytes)', gated: 'signature' },
+    { signature: 'signatureMint(uint256,bytes)', gated: 'signature' },
+];
@@ -0,0 +1,103 @@
+/**
+ * Platform Definitions Storage
+ * Launchpads described in JSON instead of a TypeScript module. Example:
+ *
+ * {
+ *   "name": "ExamplePad",
+ *   "priority": 45,
+ *   "detect": [
+ *     { "call": "function padVersion() view returns (string)", "weight": 0.9 },
+ *     { "selector": "mintPublic(uint256)", "weight": 0.5 }
+ *   ],
+ *   "getters": {
+ *     "price": "function publicPrice() view returns (uint256)",
+ *     "platformFee": "function platformFee() view returns (uint256)",
+ *     "maxSupply": "function maxSupply() view returns (uint256)",
+ *     "maxPerWallet": { "call": "function walletLimit(address) view returns (uint256)", "args": ["{me}"] },
+ *     "active": "function publicSaleActive() view returns (bool)"
+ *   },
+ *   "mint": { "function": "mintPublic(address,uint256)", "args": ["{me}", "{qty}"] },
+ *   "fees": { "price": "{price} * {qty}", "protocol": "{platformFee}" }
+ * }
+ */
+
+/**
+ * A getter: a full signature, or one with arguments ({me} = wallet, {qty} = 1)
+ */
+export type DefinitionGetter = string | { call: string; args?: string[] };
+
+/**
+ * One detection check: a getter that must answer (with `equals`, a specific value),
+ * or a function selector/signature that must appear in the bytecode
+ */
+export interface DefinitionProbe {
+    call?: string;
+    args?: string[];
+    equals?: string;
+    selector?: string;
+    weight: number;
+}
+
+export interface PlatformDefinition {
+    name: string;
+    // Detection order among the other modules (lower first)
+    priority?: number;
+    detect: DefinitionProbe[];
+    // Values read on load. Known roles: name, price, totalSupply, maxSupply, maxPerWallet,
+    // active, startTime, endTime; any other name can be used in the fee formulas.
+    getters: Record<string, DefinitionGetter>;
+    mint: {
+        function: string;
+        // One per input; {qty} and {me} are filled in when minting
+        args: string[];
+        // Contract to call when it isn't the token itself
+        to?: string;
+    };
+    // Integer (wei) formulas over {getter} values and {qty}: + - * / and parentheses.
+    // Defaults: price "{price} * {qty}", protocol and creator "0".
+    fees?: {
+        price?: string;
+        protocol?: string;
+        creator?: string;
+    };
+}
+
+const DEFINITIONS_KEY = 'pelz_platform_definitions';
+
+/**
+ * Get all stored platform definitions
+ */
+export function getStoredDefinitions(): PlatformDefinition[] {
+    try {
+        const data = localStorage.getItem(DEFINITIONS_KEY);
+        return data ? JSON.parse(data) : [];
+    } catch {
+        return [];
+    }
+}
+
+function saveDefinitions(definitions: PlatformDefinition[]): void {
+    try {
+        localStorage.setItem(DEFINITIONS_KEY, JSON.stringify(definitions));
+    } catch {
+        // No storage (headless) - definitions last for this session only
+    }
+}
+
+/**
+ * Store a definition, replacing any with the same name
+ */
+export function saveDefinition(definition: PlatformDefinition): void {
+    const id = definition.name.toLowerCase();
+    saveDefinitions([...getStoredDefinitions().filter(d => d.name.toLowerCase() !== id), definition]);
+}
+
+/**
+ * Remove a stored definition
+ */
+export function removeDefinition(name: string): boolean {
+    const definitions = getStoredDefinitions();
+    const remaining = definitions.filter(d => d.name.toLowerCase() !== name.toLowerCase());
+    saveDefinitions(remaining);
+    return remaining.length !== definitions.length;
+}
@@ -0,0 +1,48 @@
+/**
+ * Platform Settings Utility
+ * Which platform modules take part in detection, and in what order
+ */
+
+export interface PlatformSettings {
+    disabled: string[];  // module ids (lowercase names)
+    order: string[];     // module ids tried first, in this order; the rest follow by priority
+}
+
+const PLATFORM_SETTINGS_KEY = 'pelz_platform_settings';
+
+/**
+ * Get the stored platform settings
+ */
+export function getPlatformSettings(): PlatformSettings {
+    try {
+        const data = localStorage.getItem(PLATFORM_SETTINGS_KEY);
+        const stored = data ? JSON.parse(data) : {};
+        return { disabled: stored.disabled || [], order: stored.order || [] };
+    } catch {
+        return { disabled: [], order: [] };
+    }
+}
+
+function saveSettings(settings: PlatformSettings): void {
+    try {
+        localStorage.setItem(PLATFORM_SETTINGS_KEY, JSON.stringify(settings));
+    } catch {
+        // No storage (headless) - settings last for this session only
+    }
+}
+
+/**
+ * Enable or disable a platform module for detection
+ */
+export function setPlatformEnabled(id: string, enabled: boolean): void {
+    const settings = getPlatformSettings();
+    const disabled = settings.disabled.filter(name => name !== id);
+    saveSettings({ ...settings, disabled: enabled ? disabled : [...disabled, id] });
+}
+
+/**
+ * Set the detection order (empty list restores the default priorities)
+ */
+export function setPlatformOrder(ids: string[]): void {
+    saveSettings({ ...getPlatformSettings(), order: ids });
+}
@@ -0,0 +1,54 @@
+import { createPublicClient, parseAbi, type Abi, type AbiParameter } from 'viem';
+import { getChainById } from '../config/chains';
+import { getProviderTransport } from '../config/transport';
+import { fetchExplorerAbi } from '../config/explorer';
+import { UNIVERSAL_ABI } from '../config/abis';
+import { getStoredAbi, saveAbi, type StoredAbi } from '../config/abiStorage';
+import { resolveProxy } from './ProxyResolver';
+
+// Identity of an ABI item for merging proxy + implementation ABIs
+function itemKey(item: Abi[number]): string {
+    const name = 'name' in item ? item.name : '';
+    const inputs = 'inputs' in item ? (item.inputs as readonly AbiParameter[]).map(input => input.type).join(',') : '';
+    return `${item.type}:${name}(${inputs})`;
+}
+
+/**
+ * Fetch the verified ABI for a contract from the chain's explorer and cache it.
+ * For proxies the implementation's ABI is fetched too and merged over the proxy's own.
+ */
+export async function fetchContractAbi(chainId: number, address: string): Promise<StoredAbi> {
+    const publicClient = createPublicClient({
+        chain: getChainById(chainId),
+        transport: getProviderTransport(chainId)
+    });
+
+    const implementation = (await resolveProxy(publicClient, address as `0x${string}`).catch(() => undefined))?.implementation;
+
+    let abi: Abi;
+    if (implementation) {
+        // Clones are often unverified themselves - the implementation's ABI is what matters
+        const [proxyAbi, implementationAbi] = await Promise.all([
+            fetchExplorerAbi(chainId, address).catch(() => [] as Abi),
+            fetchExplorerAbi(chainId, implementation),
+        ]);
+
+        const merged = new Map<string, Abi[number]>();
+        [...proxyAbi, ...implementationAbi].forEach(item => merged.set(itemKey(item), item));
+        abi = [...merged.values()];
+    } else {
+        abi = await fetchExplorerAbi(chainId, address);
+    }
+
+    const entry: StoredAbi = { abi, source: 'explorer', implementation, savedAt: Date.now() };
+    saveAbi(chainId, address, entry);
+    return entry;
+}
+
+/**
+ * Everything we know about a contract's interface: its verified/imported ABI first,
+ * then the common ERC721/mint fragments every analysis assumes
+ */
+export function knownAbi(chainId: number, address: string): Abi {
+    return [...(getStoredAbi(chainId, address)?.abi || []), ...parseAbi(UNIVERSAL_ABI)];
+}
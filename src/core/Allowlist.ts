@@ -0,0 +1,147 @@
+/**
+ * Allowlist Builder
+ * Parses address lists and rebuilds the Merkle tree a platform verifies, so proofs can be
+ * produced for our wallets and checked against the root on-chain
+ */
+import { getAddress, isAddress, parseEther } from 'viem';
+import { buildMerkleTree, verifyMerkleProof, MERKLE_LAYOUTS, type MerkleTree } from '../utils/merkle';
+import type { AllowlistEncoding, AllowlistEntry, MintCredentials } from './platforms/PlatformManager';
+
+type Hex = `0x${string}`;
+
+// Recognised CSV/JSON column names, lowercased
+const COLUMNS: Record<string, 'address' | 'quantity' | 'price' | 'currency'> = {
+    address: 'address', wallet: 'address', minter: 'address',
+    quantity: 'quantity', qty: 'quantity', maxclaimable: 'quantity', maxquantity: 'quantity', limit: 'quantity',
+    quantitylimitperwallet: 'quantity', maxtotalmintablebywallet: 'quantity',
+    price: 'price', pricepertoken: 'price', mintprice: 'price',
+    currency: 'currency', currencyaddress: 'currency',
+};
+
+// Default column order for CSV without a header
+const POSITIONAL = ['address', 'quantity', 'price', 'currency'] as const;
+
+function isUnset(value: string): boolean {
+    return value === '' || value.toLowerCase() === 'unlimited';
+}
+
+function toEntry(fields: Record<string, string>, index: number, where: string): AllowlistEntry {
+    const address = (fields.address || '').trim();
+    if (!isAddress(address, { strict: false })) throw new Error(`${where}: "${address}" is not an address`);
+
+    const entry: AllowlistEntry = { address: getAddress(address), index };
+    const quantity = (fields.quantity || '').trim();
+    const price = (fields.price || '').trim();
+    const currency = (fields.currency || '').trim();
+
+    try {
+        if (!isUnset(quantity)) entry.quantity = BigInt(quantity);
+        // Prices are in ETH (18 decimals), as in the platforms' allowlist CSVs
+        if (!isUnset(price)) entry.price = parseEther(price);
+    } catch {
+        throw new Error(`${where}: invalid quantity "${quantity}" or price "${price}"`);
+    }
+    if (currency && isAddress(currency, { strict: false })) entry.currency = getAddress(currency);
+
+    return entry;
+}
+
+function parseJsonList(text: string): AllowlistEntry[] {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('Invalid allowlist JSON');
+    }
+    if (!Array.isArray(raw)) throw new Error('Allowlist JSON must be an array of addresses or entries');
+
+    return raw.map((item, i) => {
+        if (typeof item === 'string') return toEntry({ address: item }, i, `Entry ${i + 1}`);
+
+        const fields: Record<string, string> = {};
+        Object.entries(item as Record<string, unknown>).forEach(([key, value]) => {
+            const column = COLUMNS[key.toLowerCase()];
+            if (column && value !== undefined && value !== null) fields[column] = String(value);
+        });
+        return toEntry(fields, i, `Entry ${i + 1}`);
+    });
+}
+
+/**
+ * Parse an allowlist: a JSON array, a plain list of addresses (one per line or comma-separated),
+ * or CSV with per-address quantity/price/currency columns. CSV without a header is read as
+ * address, quantity, price, currency.
+ */
+export function parseAllowlist(text: string): AllowlistEntry[] {
+    const trimmed = text.trim();
+    if (!trimmed) throw new Error('The allowlist is empty');
+    if (trimmed.startsWith('[')) return parseJsonList(trimmed);
+
+    const tokens = trimmed.split(/[\s,;]+/).filter(Boolean);
+    if (tokens.every(token => isAddress(token, { strict: false }))) {
+        return tokens.map((token, i) => toEntry({ address: token }, i, `Entry ${i + 1}`));
+    }
+
+    const lines = trimmed.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const split = (line: string) => line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, ''));
+
+    const first = split(lines[0]);
+    const hasHeader = !isAddress(first[0], { strict: false });
+    const columns = hasHeader
+        ? first.map(name => COLUMNS[name.toLowerCase().replace(/[\s_]/g, '')])
+        : [...POSITIONAL];
+    if (!columns.includes('address')) throw new Error('No address column in the allowlist header');
+
+    return lines.slice(hasHeader ? 1 : 0).map((line, i) => {
+        const fields: Record<string, string> = {};
+        split(line).forEach((cell, col) => {
+            const column = columns[col];
+            if (column) fields[column] = cell;
+        });
+        return toEntry(fields, i, `Line ${i + (hasHeader ? 2 : 1)}`);
+    });
+}
+
+export interface AllowlistBuild {
+    entries: AllowlistEntry[];
+    tree: MerkleTree;
+    // True when a layout reproduced the on-chain root
+    matched: boolean;
+    // Proof and mint credentials for a wallet's first row, checked against the root; undefined when it isn't listed
+    credentialsFor(wallet: string): MintCredentials | undefined;
+}
+
+/**
+ * Hash the rows with the platform's leaf encoding and build the tree. Each layout is tried
+ * until one reproduces the on-chain root; without a match the merkletreejs layout is kept.
+ */
+export function buildAllowlist(entries: AllowlistEntry[], encoding: AllowlistEncoding, onChainRoot?: Hex): AllowlistBuild {
+    const leaves = entries.map(entry => encoding.leaf(entry));
+
+    let tree: MerkleTree | undefined;
+    for (const layout of MERKLE_LAYOUTS) {
+        const candidate = buildMerkleTree(leaves, layout);
+        if (onChainRoot && candidate.root.toLowerCase() === onChainRoot.toLowerCase()) {
+            tree = candidate;
+            break;
+        }
+    }
+    const matched = tree !== undefined;
+    const built = tree ?? buildMerkleTree(leaves, 'ordered');
+
+    return {
+        entries,
+        tree: built,
+        matched,
+        credentialsFor(wallet) {
+            const index = entries.findIndex(entry => entry.address.toLowerCase() === wallet.toLowerCase());
+            if (index === -1) return undefined;
+
+            const proof = built.proof(leaves[index]);
+            if (!verifyMerkleProof(leaves[index], proof, built.root)) {
+                throw new Error(`Proof for ${wallet} does not verify against root ${built.root}`);
+            }
+            return { ...encoding.credentials(entries[index]), proof };
+        },
+    };
+}
@@ -76,7 +76,10 @@ export class ContractAnalyzer {
             isActive,
             saleActive,
             maxPerWallet,
-            walletLimit
+            walletLimit,
+            allowlistActive,
+            presaleActive,
+            onlyWhitelisted
         ] = await Promise.all([
             contract.name().catch(() => 'Unknown'),
             contract.totalSupply().catch(() => BigInt(0)),
@@ -86,11 +89,16 @@ export class ContractAnalyzer {
             contract.isActive().catch(() => true),
             contract.saleActive().catch(() => true),
             contract.maxPerWallet().catch(() => BigInt(0)),
-            contract.walletLimit().catch(() => BigInt(0))
+            contract.walletLimit().catch(() => BigInt(0)),
+            contract.isAllowlistActive().catch(() => false),
+            contract.presaleActive().catch(() => false),
+            contract.onlyWhitelisted().catch(() => false)
         ]);
 
         // Combined checks
         const isSalesActive = (!paused) && (isActive) && (saleActive);
+        // Same rule as SaleStateHeuristics: allowlist-only when the allowlist is open and the public sale isn't
+        const allowlistOnly = (!paused) && (!isSalesActive) && (allowlistActive || presaleActive || onlyWhitelisted);
         const effectiveMaxWallet = (maxPerWallet > 0n) ? maxPerWallet : walletLimit;
 
         return {
@@ -101,7 +109,7 @@ export class ContractAnalyzer {
             maxSupply: Number(maxSupply),
             currentSupply: Number(totalSupply),
             isActive: isSalesActive,
-            requiresAllowlist: false, // Todo: check onlyWhitelisted
+            requiresAllowlist: allowlistOnly,
             name,
             chainId: (await this.provider.getNetwork()).chainId ? Number((await this.provider.getNetwork()).chainId) : 1,
             maxPerWallet: effectiveMaxWallet
@@ -0,0 +1,91 @@
+/**
+ * Proxy Resolver
+ * Finds the implementation behind the common proxy patterns, so bytecode checks and
+ * ABI lookups look at the code that actually runs
+ */
+import { getAddress, parseAbi, type PublicClient } from 'viem';
+
+export type ProxyType = 'eip1167' | 'eip1967' | 'uups' | 'beacon' | 'oz-legacy';
+
+export interface ProxyInfo {
+    type: ProxyType;
+    implementation: `0x${string}`;
+    // Beacon proxies: the beacon the implementation was read from
+    beacon?: `0x${string}`;
+}
+
+export const PROXY_LABELS: Record<ProxyType, string> = {
+    eip1167: 'EIP-1167 Clone',
+    eip1967: 'EIP-1967 Proxy',
+    uups: 'EIP-1967 UUPS',
+    beacon: 'EIP-1967 Beacon',
+    'oz-legacy': 'OpenZeppelin Legacy',
+};
+
+const SLOTS = {
+    // keccak256('eip1967.proxy.implementation') - 1
+    implementation: '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc',
+    // keccak256('eip1967.proxy.beacon') - 1
+    beacon: '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50',
+    // keccak256('org.zeppelinos.proxy.implementation') - pre-EIP-1967 OpenZeppelin proxies
+    ozLegacy: '0x7050c9e0f4ca769c69bd3a8ef740bc37934f8e2c036e5a723fd8ee048ed3f8c3',
+} as const;
+
+// 363d3d373d3d3d363d73 <implementation> 5af43d82803e903d91602b57fd5bf3
+const EIP1167_PATTERN = /363d3d373d3d3d363d73([a-f0-9]{40})5af43d82803e903d91602b57fd5bf3/;
+
+// PUSH4 proxiableUUID() - UUPS implementations carry the upgrade logic themselves
+const PROXIABLE_UUID_PUSH = '6352d1902d';
+
+const BEACON_ABI = parseAbi(['function implementation() view returns (address)']);
+
+async function readSlotAddress(publicClient: PublicClient, address: `0x${string}`, slot: `0x${string}`): Promise<`0x${string}` | undefined> {
+    const value = await publicClient.getStorageAt({ address, slot }).catch(() => undefined);
+    if (!value || BigInt(value) === BigInt(0)) return undefined;
+    return getAddress(`0x${value.slice(-40)}`);
+}
+
+/**
+ * Identify the proxy pattern at an address and the implementation it delegates to.
+ * Checked in order: EIP-1167 clone bytecode, the EIP-1967 implementation slot (UUPS when
+ * the implementation exposes proxiableUUID()), the EIP-1967 beacon slot, then the legacy
+ * OpenZeppelin slot. Returns undefined for contracts that aren't proxies.
+ */
+export async function resolveProxy(
+    publicClient: PublicClient,
+    address: `0x${string}`,
+    code?: string
+): Promise<ProxyInfo | undefined> {
+    if (code === undefined) {
+        code = await publicClient.getCode({ address }).catch(() => undefined) || '0x';
+    }
+    if (code === '0x') return undefined;
+
+    const clone = code.toLowerCase().match(EIP1167_PATTERN);
+    if (clone) return { type: 'eip1167', implementation: getAddress(`0x${clone[1]}`) };
+
+    const [implementation, beacon, legacy] = await Promise.all([
+        readSlotAddress(publicClient, address, SLOTS.implementation),
+        readSlotAddress(publicClient, address, SLOTS.beacon),
+        readSlotAddress(publicClient, address, SLOTS.ozLegacy),
+    ]);
+
+    if (implementation) {
+        const implementationCode = await publicClient.getCode({ address: implementation }).catch(() => undefined) || '';
+        const type = implementationCode.toLowerCase().includes(PROXIABLE_UUID_PUSH) ? 'uups' : 'eip1967';
+        return { type, implementation };
+    }
+
+    if (beacon) {
+        const beaconImplementation = await publicClient.readContract({
+            address: beacon,
+            abi: BEACON_ABI,
+            functionName: 'implementation',
+        }).catch(() => undefined);
+        if (beaconImplementation) return { type: 'beacon', implementation: beaconImplementation, beacon };
+    }
+
+    if (legacy) return { type: 'oz-legacy', implementation: legacy };
+
+    return undefined;
+}
@@ -0,0 +1,246 @@
+/**
+ * Sale State Heuristics
+ * Getter names unknown contracts commonly use for their sale switch, phase, schedule,
+ * allowlist, supply cap and mint limits. The generic analyzer reads them all in one multicall and
+ * combines the answers (see readSaleState for the precedence).
+ */
+import { parseAbi, type PublicClient } from 'viem';
+
+export type SaleStateRole =
+    | 'paused'        // bool - true closes the sale whatever else says
+    | 'active'        // bool - sale switch
+    | 'phase'         // enum/uint - 0 closed, anything else open (1 is usually the allowlist phase)
+    | 'startTime'     // unix seconds, 0 = unset
+    | 'endTime'       // unix seconds, 0 = unset
+    | 'allowlistActive' // bool - allowlist/presale switch
+    | 'merkleRoot'    // bytes32, zero = no allowlist
+    | 'allowlistStart' // unix seconds, 0 = unset
+    | 'allowlistEnd'  // unix seconds, 0 = unset
+    | 'maxSupply'
+    | 'totalSupply'
+    | 'maxPerTx'
+    | 'maxPerWallet';
+
+export interface SaleStateGetter {
+    name: string;  // no-argument view function
+    role: SaleStateRole;
+}
+
+const BOOLEAN_ROLES: SaleStateRole[] = ['paused', 'active', 'allowlistActive'];
+const ZERO_ROOT = `0x${'0'.repeat(64)}`;
+
+function getters(role: SaleStateRole, names: string[]): SaleStateGetter[] {
+    return names.map(name => ({ name, role }));
+}
+
+/**
+ * The catalogue, in order of preference within each role
+ */
+export const SALE_STATE_GETTERS: SaleStateGetter[] = [
+    ...getters('paused', ['paused', 'mintPaused', 'isPaused', 'salePaused', 'mintingPaused']),
+    ...getters('active', [
+        'publicSaleActive', 'isPublicSaleActive', 'publicSaleOpen', 'publicSaleEnabled', 'publicMintEnabled',
+        'mintActive', 'isMintActive', 'mintEnabled', 'mintingEnabled', 'mintOpen', 'mintLive',
+        'saleActive', 'isSaleActive', 'saleIsActive', 'saleOpen', 'isActive', 'isLive',
+    ]),
+    ...getters('phase', ['saleState', 'saleStatus', 'saleStage', 'getSaleState', 'mintState', 'mintPhase', 'currentPhase', 'phase', 'stage']),
+    ...getters('startTime', [
+        'publicSaleStartTime', 'publicSaleStart', 'publicStartTime', 'publicMintStart',
+        'saleStartTime', 'saleStart', 'saleStartTimestamp', 'mintStartTime', 'mintStart', 'startTime', 'startTimestamp',
+    ]),
+    ...getters('endTime', ['publicSaleEndTime', 'publicSaleEnd', 'saleEndTime', 'saleEnd', 'mintEndTime', 'mintEnd', 'endTime', 'endTimestamp']),
+    ...getters('allowlistActive', [
+        'isAllowlistActive', 'allowlistActive', 'allowlistMintActive', 'presaleActive', 'isPresaleActive', 'presaleIsActive',
+        'preSaleActive', 'whitelistActive', 'isWhitelistActive', 'whitelistMintEnabled', 'whitelistMintActive', 'onlyWhitelisted',
+    ]),
+    ...getters('merkleRoot', ['merkleRoot', 'allowlistMerkleRoot', 'whitelistMerkleRoot', 'presaleMerkleRoot', 'allowlistRoot', 'whitelistRoot']),
+    ...getters('allowlistStart', ['presaleStartTime', 'presaleStart', 'allowlistStartTime', 'allowlistStart', 'whitelistStartTime', 'whitelistStart']),
+    ...getters('allowlistEnd', ['presaleEndTime', 'presaleEnd', 'allowlistEndTime', 'allowlistEnd', 'whitelistEndTime', 'whitelistEnd']),
+    ...getters('maxSupply', ['maxSupply', 'MAX_SUPPLY', 'collectionSize', 'maxTokens', 'MAX_TOKENS', 'maxTotalSupply', 'maxMintSupply', 'supplyLimit']),
+    ...getters('totalSupply', ['totalSupply', 'totalMinted']),
+    ...getters('maxPerTx', [
+        'maxPerTx', 'maxPerTransaction', 'maxMintPerTx', 'maxMintAmountPerTx', 'MAX_PER_TX', 'MAX_MINT_PER_TX', 'maxMintAmount', 'maxBatchSize',
+    ]),
+    ...getters('maxPerWallet', [
+        'maxPerWallet', 'walletLimit', 'maxPerAddress', 'maxMintPerWallet', 'maxMintsPerWallet', 'MAX_PER_WALLET',
+        'maxPerAddressDuringMint', 'mintLimitPerWallet',
+    ]),
+];
+
+export interface SaleState {
+    // Someone can mint right now (public, or allowlisted wallets)
+    isActive: boolean;
+    // Only allowlisted wallets can mint right now
+    requiresAllowlist: boolean;
+    // Paused, Public, Allowlist, Public + Allowlist, Not started or Closed
+    phaseLabel: string;
+    phase?: number;
+    startTime?: number;
+    endTime?: number;
+    maxSupply?: bigint;
+    totalSupply?: bigint;
+    maxPerTx?: bigint;
+    maxPerWallet?: bigint;
+    merkleRoot?: `0x${string}`;
+    // Which getter(s) produced each field, e.g. { maxSupply: 'MAX_SUPPLY()' }; isActive is 'default' when nothing answered
+    sources: Record<string, string>;
+    // Every getter that answered, by name
+    readings: Record<string, bigint | boolean | string>;
+}
+
+type Reading = bigint | boolean | string;
+
+function abiFor(getter: SaleStateGetter) {
+    const returns = BOOLEAN_ROLES.includes(getter.role) ? 'bool' : getter.role === 'merkleRoot' ? 'bytes32' : 'uint256';
+    return parseAbi([`function ${getter.name}() view returns (${returns})`]);
+}
+
+/**
+ * Read every catalogue getter, one multicall (deployless on chains without Multicall3),
+ * falling back to single reads when the multicall itself fails
+ */
+async function readGetters(
+    publicClient: PublicClient,
+    address: `0x${string}`,
+    catalogue: SaleStateGetter[]
+): Promise<(Reading | undefined)[]> {
+    const contracts = catalogue.map(getter => ({ address, abi: abiFor(getter), functionName: getter.name }));
+
+    try {
+        const results = await publicClient.multicall({
+            contracts,
+            allowFailure: true,
+            deployless: !publicClient.chain?.contracts?.multicall3,
+        });
+        return results.map(result => result.status === 'success' ? result.result as Reading : undefined);
+    } catch {
+        return Promise.all(contracts.map(contract =>
+            publicClient.readContract(contract).then(value => value as Reading).catch(() => undefined)));
+    }
+}
+
+/**
+ * Probe the catalogue and combine the answers. Numbers take the first non-zero answer in
+ * catalogue order (totalSupply the first answer).
+ *
+ * Any paused getter returning true closes the sale. Otherwise the public sale is judged by
+ * the first of these that has an answer:
+ *   1. the sale switches → open only if every one that answered is true
+ *   2. the phase enum → open unless 0; 1 is the allowlist phase when the contract has an allowlist
+ *   3. the schedule → open between startTime and endTime (either may be unset)
+ *   4. nothing answered → open, unless a non-zero Merkle root says the sale is allowlist-only
+ * The allowlist phase is open when an allowlist switch is on, the presale window contains
+ * now, or the phase enum says so. requiresAllowlist means it is open and the public sale isn't.
+ */
+export async function readSaleState(publicClient: PublicClient, address: `0x${string}`): Promise<SaleState> {
+    const catalogue = SALE_STATE_GETTERS;
+    const values = await readGetters(publicClient, address, catalogue);
+
+    const readings: Record<string, Reading> = {};
+    const answered = (role: SaleStateRole) => catalogue
+        .map((getter, i) => ({ getter, value: values[i] }))
+        .filter((entry): entry is { getter: SaleStateGetter; value: Reading } =>
+            entry.getter.role === role && entry.value !== undefined);
+    catalogue.forEach((getter, i) => {
+        if (values[i] !== undefined) readings[getter.name] = values[i]!;
+    });
+
+    const sources: Record<string, string> = {};
+    const names = (entries: { getter: SaleStateGetter }[]) => entries.map(entry => `${entry.getter.name}()`).join(', ');
+    const firstNumber = (role: SaleStateRole, allowZero = false): bigint | undefined => {
+        const hit = answered(role).find(entry => allowZero || entry.value !== BigInt(0));
+        if (!hit) return undefined;
+        sources[role] = `${hit.getter.name}()`;
+        return hit.value as bigint;
+    };
+
+    const maxSupply = firstNumber('maxSupply');
+    const totalSupply = firstNumber('totalSupply', true);
+    const maxPerTx = firstNumber('maxPerTx');
+    const maxPerWallet = firstNumber('maxPerWallet');
+    const start = firstNumber('startTime');
+    const end = firstNumber('endTime');
+    const allowlistStart = firstNumber('allowlistStart');
+    const allowlistEnd = firstNumber('allowlistEnd');
+    const phaseValue = firstNumber('phase', true);
+    const phase = phaseValue !== undefined ? Number(phaseValue) : undefined;
+
+    const root = answered('merkleRoot').find(entry => entry.value !== ZERO_ROOT);
+    if (root) sources.merkleRoot = `${root.getter.name}()`;
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const inWindow = (from?: bigint, to?: bigint) => (from === undefined || now >= from) && (to === undefined || now < to);
+
+    const paused = answered('paused').filter(entry => entry.value === true);
+    const switches = answered('active');
+    const allowlistSwitches = answered('allowlistActive');
+    const hasAllowlist = !!root || allowlistSwitches.length > 0 || allowlistStart !== undefined || allowlistEnd !== undefined;
+
+    // Public sale
+    let publicOpen = true;
+    let phaseIsAllowlist = false;
+    if (switches.length > 0) {
+        publicOpen = switches.every(entry => entry.value === true);
+        sources.isActive = names(switches);
+    } else if (phase !== undefined) {
+        phaseIsAllowlist = phase === 1 && hasAllowlist;
+        publicOpen = phase !== 0 && !phaseIsAllowlist;
+        sources.isActive = sources.phase;
+    } else if (start !== undefined || end !== undefined) {
+        publicOpen = inWindow(start, end);
+        sources.isActive = [sources.startTime, sources.endTime].filter(Boolean).join(', ');
+    } else if (root && allowlistSwitches.length === 0) {
+        publicOpen = false;
+        sources.isActive = sources.merkleRoot;
+    } else {
+        sources.isActive = 'default';
+    }
+
+    // Allowlist phase
+    const allowlistOn = allowlistSwitches.filter(entry => entry.value === true);
+    let allowlistOpen = false;
+    if (allowlistOn.length > 0) {
+        allowlistOpen = true;
+        sources.requiresAllowlist = names(allowlistOn);
+    } else if ((allowlistStart !== undefined || allowlistEnd !== undefined) && inWindow(allowlistStart, allowlistEnd)) {
+        allowlistOpen = true;
+        sources.requiresAllowlist = [sources.allowlistStart, sources.allowlistEnd].filter(Boolean).join(', ');
+    } else if (phaseIsAllowlist) {
+        allowlistOpen = true;
+        sources.requiresAllowlist = sources.phase;
+    } else if (root && sources.isActive === sources.merkleRoot) {
+        allowlistOpen = true;
+        sources.requiresAllowlist = sources.merkleRoot;
+    }
+
+    if (paused.length > 0) {
+        publicOpen = false;
+        allowlistOpen = false;
+        sources.isActive = names(paused);
+        delete sources.requiresAllowlist;
+    }
+
+    let phaseLabel: string;
+    if (paused.length > 0) phaseLabel = 'Paused';
+    else if (publicOpen && allowlistOpen) phaseLabel = 'Public + Allowlist';
+    else if (publicOpen) phaseLabel = 'Public';
+    else if (allowlistOpen) phaseLabel = 'Allowlist';
+    else if ((start !== undefined && now < start) || (allowlistStart !== undefined && now < allowlistStart)) phaseLabel = 'Not started';
+    else phaseLabel = 'Closed';
+
+    return {
+        isActive: publicOpen || allowlistOpen,
+        requiresAllowlist: allowlistOpen && !publicOpen,
+        phaseLabel,
+        phase,
+        startTime: start !== undefined ? Number(start) : undefined,
+        endTime: end !== undefined ? Number(end) : undefined,
+        maxSupply,
+        totalSupply,
+        maxPerTx,
+        maxPerWallet,
+        merkleRoot: root?.value as `0x${string}` | undefined,
+        sources,
+        readings,
+    };
+}
@@ -0,0 +1,163 @@
+import { hexToBytes, toFunctionSelector, toFunctionSignature, type Abi, type AbiFunction, type PublicClient } from 'viem';
+import { MINT_SIGNATURES, type MintSignature } from '../config/mintSignatures';
+import { resolveProxy } from './ProxyResolver';
+
+// Opcodes the dispatcher scan cares about
+const OP = {
+    EQ: 0x14,
+    ISZERO: 0x15,
+    CALLVALUE: 0x34,
+    JUMPI: 0x57,
+    JUMPDEST: 0x5b,
+    PUSH1: 0x60,
+    PUSH4: 0x63,
+    PUSH32: 0x7f,
+    DUP1: 0x80,
+    DUP2: 0x81,
+};
+
+/**
+ * A known mint signature whose selector is in the contract's dispatcher
+ */
+export interface MintCandidate {
+    signature: string;
+    selector: `0x${string}`;
+    // From the function entry's callvalue check; undefined when the dispatcher couldn't be followed
+    payable?: boolean;
+    gated?: MintSignature['gated'];
+}
+
+/**
+ * What the bytecode scan found: ranked mint candidates, best first
+ */
+export interface SelectorReport {
+    // Where the selectors came from: the runtime bytecode, or a verified/imported ABI
+    source: 'bytecode' | 'abi';
+    // Set when the address is a proxy and the scan ran on its implementation
+    implementation?: `0x${string}`;
+    selectorCount: number;
+    candidates: MintCandidate[];
+}
+
+interface Op {
+    pc: number;
+    op: number;
+    // PUSH operand as hex (no 0x), empty for other opcodes
+    data: string;
+}
+
+function disassemble(code: Uint8Array): Op[] {
+    const ops: Op[] = [];
+    for (let pc = 0; pc < code.length;) {
+        const op = code[pc];
+        const size = op >= OP.PUSH1 && op <= OP.PUSH32 ? op - OP.PUSH1 + 1 : 0;
+        const data = Array.from(code.slice(pc + 1, pc + 1 + size), b => b.toString(16).padStart(2, '0')).join('');
+        ops.push({ pc, op, data });
+        pc += 1 + size;
+    }
+    return ops;
+}
+
+/**
+ * Collect the 4-byte selectors pushed by the runtime bytecode, with a payability guess.
+ *
+ * Solidity dispatches with `PUSH4 selector (DUP2) EQ PUSHn dest JUMPI`; a non-payable
+ * function's entry at `dest` starts with `JUMPDEST CALLVALUE`. When no function is payable,
+ * the compiler hoists that check to the very start of the contract instead.
+ */
+export function extractSelectors(bytecode: `0x${string}`): Map<`0x${string}`, boolean | undefined> {
+    const ops = disassemble(hexToBytes(bytecode));
+    const indexByPc = new Map(ops.map((op, i) => [op.pc, i]));
+    const selectors = new Map<`0x${string}`, boolean | undefined>();
+
+    const rejectsValue = ops.slice(0, 8).some((op, i) =>
+        op.op === OP.CALLVALUE && ops[i + 1]?.op === OP.DUP1 && ops[i + 2]?.op === OP.ISZERO);
+
+    ops.forEach((op, i) => {
+        if (op.op !== OP.PUSH4) return;
+        const selector = `0x${op.data}` as `0x${string}`;
+
+        let j = i + 1;
+        if (ops[j]?.op === OP.DUP2) j++;
+        const jump = ops[j + 1];
+        const isEntry = ops[j]?.op === OP.EQ && jump && jump.op >= OP.PUSH1 && jump.op <= OP.PUSH32 && ops[j + 2]?.op === OP.JUMPI;
+
+        let payable: boolean | undefined;
+        if (isEntry) {
+            const k = indexByPc.get(parseInt(jump.data, 16));
+            if (k !== undefined && ops[k].op === OP.JUMPDEST) {
+                payable = rejectsValue ? false : ops[k + 1]?.op !== OP.CALLVALUE;
+            }
+        }
+
+        // Keep the first definite answer - selectors also appear as binary-search pivots
+        if (selectors.get(selector) === undefined) selectors.set(selector, payable);
+    });
+
+    return selectors;
+}
+
+// Ungated before allowlist/signed, payable before non-payable, known payability before a guess
+const rank = (c: MintCandidate) =>
+    (c.gated ? 4 : 0) + (c.payable === false ? 2 : 0) + (c.payable === undefined ? 1 : 0);
+
+/**
+ * Mint candidates from an ABI: known signatures first, then any other payable
+ * function named like a mint. Payability is exact here.
+ */
+export function reportFromAbi(abi: Abi): SelectorReport {
+    const functions = abi.filter((item): item is AbiFunction => item.type === 'function');
+    const known = new Map(MINT_SIGNATURES.map((entry, i) => [entry.signature, { entry, order: i }]));
+
+    const ranked = functions.flatMap(fn => {
+        const signature = toFunctionSignature(fn);
+        const match = known.get(signature);
+        const payable = fn.stateMutability === 'payable';
+        if (!match && !(payable && /mint|purchase|buy|claim/i.test(fn.name))) return [];
+
+        const types = fn.inputs.map(input => input.type);
+        const gated: MintCandidate['gated'] = match?.entry.gated
+            ?? (types.includes('bytes32[]') ? 'allowlist' : types.includes('bytes') ? 'signature' : undefined);
+
+        const candidate: MintCandidate = { signature, selector: toFunctionSelector(signature), payable, gated };
+        return [{ candidate, order: match ? match.order : MINT_SIGNATURES.length }];
+    });
+
+    const candidates = ranked
+        .sort((a, b) => rank(a.candidate) - rank(b.candidate) || a.order - b.order)
+        .map(entry => entry.candidate);
+
+    return { source: 'abi', selectorCount: functions.length, candidates };
+}
+
+/**
+ * Scan a contract's runtime bytecode (following proxies) for known mint signatures,
+ * or read them from its ABI when one is known. Candidates are ranked: ungated before
+ * allowlist/signed, payable before non-payable, then by how common the signature is.
+ */
+export async function findMintCandidates(publicClient: PublicClient, address: `0x${string}`, abi?: Abi): Promise<SelectorReport> {
+    if (abi) return reportFromAbi(abi);
+
+    let code = await publicClient.getCode({ address }) || '0x';
+    const implementation = (await resolveProxy(publicClient, address, code))?.implementation;
+    if (implementation) {
+        code = await publicClient.getCode({ address: implementation }) || '0x';
+    }
+
+    const selectors = extractSelectors(code);
+
+    const candidates = MINT_SIGNATURES
+        .map(entry => ({ ...entry, selector: toFunctionSelector(entry.signature) }))
+        .filter(entry => selectors.has(entry.selector))
+        .map(entry => ({ ...entry, payable: selectors.get(entry.selector) }))
+        .sort((a, b) => rank(a) - rank(b));
+
+    return { source: 'bytecode', implementation, selectorCount: selectors.size, candidates };
+}
+
+/**
+ * The mint function to use by default: the best candidate we can call with a quantity/wallet alone
+ */
+export function bestMintFunction(report: SelectorReport): string | undefined {
+    return report.candidates.find(c => !c.gated)?.signature;
+}
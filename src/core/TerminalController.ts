@@ -1,12 +1,20 @@
 import { Terminal } from 'xterm';
-import { formatEther, parseEther, formatUnits } from 'viem';
+import { formatEther, parseEther, formatUnits, maxUint256, isAddress, toFunctionSignature, type Abi } from 'viem';
 import { CommandParser } from './CommandParser';
 import { useWalletStore } from '../store/walletStore';
-import { ViemContractAnalyzer, type ContractInfo } from './ViemContractAnalyzer';
+import { ViemContractAnalyzer, type ContractInfo, type MintProbe } from './ViemContractAnalyzer';
 import { ViemMintingEngine } from './ViemMintingEngine';
 import { NETWORKS, type NetworkConfig } from '../config/networks';
-import { getPlatformManager, initializePlatformModules, type PlatformContractInfo } from './platforms';
+import { getPlatformManager, initializePlatformModules, installPlatformDefinition, uninstallPlatformDefinition, DeclarativeModule, buildArgsCall, quoteFromCall, auctionPriceAt, auctionTimeAt, auctionSchedule, type PlatformContractInfo, type MintStage, type MintCredentials, type AnalyzeOptions, type MintCall, type PriceQuote, type DetectionReport, MIN_DETECTION_CONFIDENCE } from './platforms';
 import { pingMultiple, getLatencyColor } from '../utils/ping';
+import { getLedger, recordRefund, recordSentMint, settleMint } from '../config/mintLedger';
+import { getStoredAbi, removeAbi, saveAbi } from '../config/abiStorage';
+import { resolveAbiFunction, splitArgs, parseAbiArgs, formatAbiResult } from '../utils/abiArgs';
+import { fetchContractAbi, knownAbi } from './AbiLoader';
+import { reportFromAbi, bestMintFunction } from './SelectorExtractor';
+import { PROXY_LABELS } from './ProxyResolver';
+import { parseAllowlist, buildAllowlist } from './Allowlist';
+import { getAllowlists, saveAllowlist, clearAllowlists, type StoredProof } from '../config/allowlistStorage';
 
 export class TerminalController {
     private term: Terminal;
@@ -113,6 +121,228 @@ export class TerminalController {
         this.term.writeln(this.color('  ────────────────────────────────────────', '90'));
     }
 
+    private formatPrice(wei: bigint): string {
+        const priceEth = Number(formatEther(wei));
+        return priceEth < 0.0001 && priceEth > 0
+            ? `${formatUnits(wei, 9)} Gwei`
+            : `${formatEther(wei)} ETH`;
+    }
+
+    private formatTime(unix: number): string {
+        return new Date(unix * 1000).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+    }
+
+    private formatCountdown(seconds: number): string {
+        const d = Math.floor(seconds / 86400);
+        const h = Math.floor((seconds % 86400) / 3600);
+        const m = Math.floor((seconds % 3600) / 60);
+        if (d > 0) return `${d}d ${h}h`;
+        if (h > 0) return `${h}h ${m}m`;
+        return `${m}m ${seconds % 60}s`;
+    }
+
+    /**
+     * Itemised quote rows; ERC20 amounts in the payment token, fees in native currency
+     */
+    private printQuote(quote: PriceQuote) {
+        const token = quote.payment;
+        const formatBase = (amount: bigint) => token
+            ? `${formatUnits(amount, token.decimals)} ${token.symbol}`
+            : `${formatEther(amount)} ETH`;
+        const label = quote.quantity === 1 ? '1 NFT' : `${quote.quantity} NFTs`;
+
+        this.tableRow(`Base (${label})`, formatBase(quote.basePrice));
+        if (quote.protocolFee > BigInt(0)) this.tableRow('Protocol Fee', `${formatEther(quote.protocolFee)} ETH`);
+        if (quote.creatorFee > BigInt(0)) this.tableRow('Creator Fee', `${formatEther(quote.creatorFee)} ETH`);
+        if (quote.affiliateDiscount > BigInt(0)) this.tableRow('Affiliate', `-${formatBase(quote.affiliateDiscount)}`);
+
+        const tokenPart = token ? ` + ${formatBase(quote.basePrice - quote.affiliateDiscount)}` : '';
+        this.tableRow(`Total (${label})`, `${formatEther(quote.total)} ETH${tokenPart}`);
+    }
+
+    private formatStagePrice(stage: MintStage): string {
+        if (!stage.currency) return this.formatPrice(stage.price!);
+
+        const payment = this.platformContract?.payment;
+        if (payment && payment.address.toLowerCase() === stage.currency.toLowerCase()) {
+            return `${formatUnits(stage.price!, payment.decimals)} ${payment.symbol}`;
+        }
+        return `${stage.price} units of ${stage.currency.slice(0, 10)}…`;
+    }
+
+    /**
+     * Stage the next mint goes into: the one selected with 'contract stage', else the platform default
+     */
+    private currentStageId(): string {
+        const info = this.platformContract;
+        if (info?.credentials) return info.credentials.stage;
+        return info?.inviteKey ? `list:${info.inviteKey}` : 'public';
+    }
+
+    /**
+     * List the mint functions the bytecode scan matched, marking the one in use
+     */
+    private printSelectorReport(info: PlatformContractInfo) {
+        const report = info.selectorReport;
+        this.term.writeln(this.color('  MINT FUNCTIONS (bytecode)', '1;37'));
+
+        if (!report) {
+            this.term.writeln(this.color('  Bytecode scan unavailable', '90'));
+            return;
+        }
+
+        // Already in the target table when the platform manager resolved the proxy
+        if (report.implementation && !info.proxy) {
+            this.tableRow('Implementation', report.implementation);
+        }
+        this.tableRow('Selectors', report.selectorCount.toString());
+
+        if (report.candidates.length === 0) {
+            this.term.writeln(this.color('  No known mint signatures found - use --func', '90'));
+            return;
+        }
+
+        for (const candidate of report.candidates) {
+            const payable = candidate.payable === undefined ? 'payable?' : candidate.payable ? 'payable' : 'non-payable';
+            const notes = [candidate.selector, payable, candidate.gated].filter(Boolean).join(' · ');
+            const chosen = candidate.signature === info.mintFunction ? this.color(' ◀ using', '32') : '';
+            this.tableRow(candidate.signature, `${notes}${chosen}`, 34);
+        }
+    }
+
+    /**
+     * Detection verdict, and with explain every module's score and the evidence behind it
+     */
+    private printDetection(report: DetectionReport, explain: boolean) {
+        this.term.writeln(this.color('  PLATFORM DETECTION', '1;37'));
+
+        if (report.proxy) {
+            this.tableRow('Proxy', `${PROXY_LABELS[report.proxy.type]} → ${report.proxy.implementation}`);
+        }
+        const top = report.results[0];
+        this.tableRow('Verdict', report.best
+            ? `${report.best} (confidence ${top.confidence.toFixed(2)})`
+            : `Generic (no module reached ${MIN_DETECTION_CONFIDENCE.toFixed(2)})`);
+        this.tableRow('Checked', `${Math.round((Date.now() - report.detectedAt) / 1000)}s ago`);
+
+        if (!explain) return;
+
+        for (const result of report.results) {
+            const score = result.confidence.toFixed(2);
+            const marker = result.platform === report.best ? this.color(' ◀ using', '32') : '';
+            this.tableRow(result.platform, `${score}${marker}`);
+            result.evidence.forEach(line => this.term.writeln(this.color(`      ${line}`, '90')));
+        }
+    }
+
+    /**
+     * True for generic contracts whose price getters are missing or disagree
+     */
+    private priceUncertain(info: PlatformContractInfo): boolean {
+        return !!info.priceGetters && new Set(Object.values(info.priceGetters).map(String)).size !== 1;
+    }
+
+    /**
+     * Why price discovery has no price for a contract
+     */
+    private discoveryNote(info: PlatformContractInfo): string {
+        switch (info.discoveryFailure) {
+            case 'reverts':
+                return 'not found - the mint reverts at every value (closed, gated, or it wants an exact amount)';
+            case 'no-override':
+                return 'not found - the RPC rejects state overrides, so only values within the wallet balance were tried';
+            default:
+                return 'not checked - connect the wallet and reload the contract';
+        }
+    }
+
+    /**
+     * Getter-derived prices next to the simulated minimum, flagging a mismatch
+     */
+    private printPriceDiscovery(info: PlatformContractInfo) {
+        const getters = Object.entries(info.priceGetters || {});
+        this.tableRow('Price Getters', getters.length > 0
+            ? getters.map(([name, price]) => `${name}=${formatEther(price)}`).join(', ')
+            : this.color('none found', '33'));
+
+        if (info.discoveredPrice === undefined) {
+            this.tableRow('Simulated', this.color(this.discoveryNote(info), '90'));
+        } else if (info.discoveredPrice !== info.mintPrice) {
+            this.tableRow('Simulated', this.color(`${this.formatPrice(info.discoveredPrice)} ⚠️ differs from getter price`, '33'));
+        } else {
+            this.tableRow('Simulated', `${this.formatPrice(info.discoveredPrice)} ✅`);
+        }
+    }
+
+    /**
+     * Generic contracts: limits and schedule the sale-state getters revealed, and which getter gave each value
+     */
+    private printSaleState(info: PlatformContractInfo) {
+        const now = Math.floor(Date.now() / 1000);
+        if (info.saleStart) {
+            this.tableRow('Opens', info.saleStart > now
+                ? `${this.formatTime(info.saleStart)} (in ${this.formatCountdown(info.saleStart - now)})`
+                : this.formatTime(info.saleStart));
+        }
+        if (info.saleEnd) this.tableRow('Closes', this.formatTime(info.saleEnd));
+        if (info.maxPerTx) this.tableRow('Max / Tx', info.maxPerTx.toString());
+        if (info.maxPerWallet) this.tableRow('Max / Wallet', info.maxPerWallet.toString());
+
+        this.tableRow('Read From', '');
+        Object.entries(info.saleSources || {}).forEach(([field, getter]) =>
+            this.term.writeln(this.color(`      ${field.padEnd(13)} ${getter}`, '90')));
+    }
+
+    /**
+     * True when a proof, signature or gate token is attached for the selected stage
+     */
+    private hasAllowlistCredentials(): boolean {
+        const credentials = this.platformContract?.credentials;
+        return !!credentials && (!!credentials.proof?.length || !!credentials.signature || !!credentials.gateTokenIds?.length);
+    }
+
+    /**
+     * Show which candidate mint functions reverted in simulation, and why
+     */
+    private printMintProbes(probes: MintProbe[]) {
+        this.term.writeln(this.color('  MINT SIMULATION', '1;37'));
+        for (const probe of probes) {
+            this.tableRow(probe.signature, probe.ok
+                ? this.color('✅ Succeeds - using', '32')
+                : this.color(`❌ ${probe.reason}`, '90'), 34);
+        }
+        if (!probes.some(probe => probe.ok)) {
+            this.warn('No candidate simulated successfully (sale closed?) - keeping the bytecode pick. Use --func to choose.');
+        }
+    }
+
+    private printStages(stages: MintStage[]) {
+        const now = Math.floor(Date.now() / 1000);
+        const selected = this.currentStageId();
+
+        this.term.writeln(this.color('  STAGES', '1;34'));
+        for (const stage of stages) {
+            const marker = stage.isActive ? this.color('●', '32') : stage.offChain ? this.color('?', '33') : this.color('○', '90');
+            const pointer = stage.id === selected || stage.id.startsWith(`${selected}:`) ? this.color('▶', '1;33') : ' ';
+
+            const details: string[] = [stage.price !== undefined ? this.formatStagePrice(stage) : 'price in proof'];
+            if (stage.pricing) {
+                const { reservePrice, delta, interval } = stage.pricing;
+                details.push(`→ ${this.formatPrice(reservePrice)} by ${formatEther(delta)} every ${this.formatCountdown(interval)}`);
+            }
+            if (stage.maxPerWallet) details.push(`max ${stage.maxPerWallet}/wallet`);
+            if (stage.startTime > now) {
+                details.push(`opens in ${this.formatCountdown(stage.startTime - now)}`);
+            } else if (stage.startTime) {
+                details.push(`from ${this.formatTime(stage.startTime)}`);
+            }
+            if (stage.endTime) details.push(`until ${this.formatTime(stage.endTime)}`);
+            if (stage.gate) details.push(stage.gate);
+
+            this.term.writeln(`  ${pointer}${marker} ${stage.name.padEnd(14)} ${this.color(details.join(' · '), '90')}`);
+        }
+    }
+
     // --- Input Handling ---
 
     private setupInput() {
@@ -187,7 +417,10 @@ export class TerminalController {
             return;
         }
 
-        const { command, args, flags } = this.parser.parse(input);
+        // --args takes the rest of the line, so values can contain spaces inside [..] and (..)
+        const argsAt = input.indexOf(' --args ');
+        const { command, args, flags } = this.parser.parse(argsAt >= 0 ? input.slice(0, argsAt) : input);
+        if (argsAt >= 0) flags.args = input.slice(argsAt + ' --args '.length).trim();
 
         try {
             switch (command) {
@@ -217,7 +450,7 @@ export class TerminalController {
                 case 'mint':
                 case 'm': // Alias
                     const qty = args[0] || '1';
-                    await this.handleSnipe(['start'], { qty });
+                    await this.handleSnipe(['start'], { ...flags, qty });
                     break;
                 case 'wallet':
                 case 'w': // Alias
@@ -247,6 +480,20 @@ export class TerminalController {
                 case 'rpc':
                     this.handleRpc();
                     break;
+                case 'refund':
+                    await this.handleRefund(args);
+                    break;
+                case 'platform':
+                    await this.handlePlatform(args);
+                    break;
+                case 'allowlist':
+                    await this.handleAllowlist(args, flags);
+                    break;
+                case 'read':
+                case 'call':
+                case 'send':
+                    await this.handleFunction(command, args, flags);
+                    break;
                 default:
                     this.error(`Unknown command: ${command}`);
                     this.term.writeln(this.color('  Type "?" for help.', '90'));
@@ -355,10 +602,16 @@ export class TerminalController {
         this.tableRow('m, mint [N]', 'Quick Mint (e.g. "m 2")');
         this.tableRow('s, snipe', 'start -q [N] [-p ETH]');
         this.tableRow('g, gas', 'auto');
+        this.tableRow('refund', 'status | claim (Dutch auctions, connected wallet)');
+        this.tableRow('allowlist', 'import [--stage id] | show | clear');
+        this.tableRow('read [fn] [args]', 'Call a view function');
+        this.tableRow('call [fn] [args]', 'Simulate from wallet [--value ETH]');
+        this.tableRow('send [fn] [args]', 'Send any write [--value ETH]');
 
         this.term.writeln('');
         this.term.writeln(this.color('  NETWORK', '1;33'));
         this.tableRow('n, network', 'list | switch [name/id]');
+        this.tableRow('platform', 'list | enable | disable | order | import');
 
         this.term.writeln('');
         this.term.writeln(this.color('  NEED MORE HELP?', '1;35'));
@@ -427,16 +680,38 @@ export class TerminalController {
 
             const funcOverride = flags.func || flags.f;
             const platformOverride = flags.platform || flags.p;
+            const options: AnalyzeOptions = { wallet: walletInfo.address };
 
             if (funcOverride) this.info(`Using manual mint function: ${funcOverride}`);
             if (platformOverride) this.info(`Forcing platform: ${platformOverride}`);
+            if (flags.instance) {
+                try {
+                    options.instanceId = BigInt(flags.instance);
+                } catch {
+                    throw new Error("Invalid instance ID");
+                }
+                this.info(`Using claim instance: ${flags.instance}`);
+            }
+            if (flags.token) {
+                try {
+                    options.tokenId = BigInt(flags.token);
+                } catch {
+                    throw new Error("Invalid token ID");
+                }
+                this.info(`Using token ID: ${flags.token}`);
+            }
+            if (flags.list) {
+                options.list = String(flags.list);
+                this.info(`Using invite list: ${flags.list}`);
+            }
+            if (flags.explain) options.explain = true;
 
             // Initialize platform modules if not already done
             initializePlatformModules(walletInfo.chainId);
             const platformManager = getPlatformManager(walletInfo.chainId);
 
             // Analyze with platform detection
-            const platformInfo = await platformManager.analyze(args[1], platformOverride);
+            const platformInfo = await platformManager.analyze(args[1], platformOverride, options);
             this.platformContract = platformInfo;
 
             // Also store as generic contract for backward compatibility
@@ -450,7 +725,7 @@ export class TerminalController {
                 isActive: platformInfo.isActive,
                 maxSupply: Number(platformInfo.maxSupply || 0),
                 currentSupply: Number(platformInfo.totalSupply || 0),
-                requiresAllowlist: false,
+                requiresAllowlist: platformInfo.requiresAllowlist ?? false,
                 maxPerWallet: platformInfo.maxPerWallet,
             };
 
@@ -459,46 +734,489 @@ export class TerminalController {
             this.separator();
             this.tableRow('Name', platformInfo.name || 'Unknown');
             this.tableRow('Address', platformInfo.address);
+            if (platformInfo.proxy) {
+                this.tableRow('Proxy', PROXY_LABELS[platformInfo.proxy.type]);
+                this.tableRow('Implementation', platformInfo.proxy.implementation);
+                if (platformInfo.proxy.beacon) {
+                    this.tableRow('Beacon', platformInfo.proxy.beacon);
+                }
+            }
             this.tableRow('Platform', platformInfo.platform.toUpperCase());
-            this.tableRow('Token', platformInfo.tokenStandard);
+            this.tableRow('Token', platformInfo.tokenId !== undefined
+                ? `${platformInfo.tokenStandard} #${platformInfo.tokenId}`
+                : platformInfo.tokenStandard);
             this.tableRow('Chain ID', platformInfo.chainId.toString());
             this.tableRow('Mint Func', platformInfo.mintFunction);
 
-            // Format Price Smartly
-            const priceEth = Number(formatEther(platformInfo.mintPrice));
-            const priceStr = priceEth < 0.0001 && priceEth > 0
-                ? `${formatUnits(platformInfo.mintPrice, 9)} Gwei`
-                : `${formatEther(platformInfo.mintPrice)} ETH`;
-
-            this.tableRow('Price', priceStr);
-
-            // Show platform-specific fees
-            if (platformInfo.protocolFee > BigInt(0)) {
-                const feeStr = formatEther(platformInfo.protocolFee);
-                this.tableRow('Protocol Fee', `${feeStr} ETH`);
+            if (platformInfo.payment) {
+                const { payment } = platformInfo;
+                this.tableRow('Price', `${formatUnits(payment.price, payment.decimals)} ${payment.symbol}`);
+                this.tableRow('Currency', `${payment.symbol} · ${payment.decimals} decimals · ${payment.address.slice(0, 12)}...`);
+            } else {
+                this.tableRow('Price', this.formatPrice(platformInfo.mintPrice));
+            }
+            if (this.priceUncertain(platformInfo)) {
+                this.printPriceDiscovery(platformInfo);
             }
 
-            // Show total value for 1 token
-            const totalFor1 = platformInfo.getTotalValue(1);
-            if (totalFor1 !== platformInfo.mintPrice) {
-                this.tableRow('Total (1 NFT)', `${formatEther(totalFor1)} ETH`);
+            // Itemised cost of 1 token, as the contract prices it
+            try {
+                const quote = await platformManager.quote(platformInfo, 1, { wallet: walletInfo.address });
+                this.printQuote(quote);
+            } catch (e) {
+                this.tableRow('Total (1 NFT)', this.color(`unavailable (${e instanceof Error ? e.message : e})`, '90'));
             }
 
             // Show mint status
             this.tableRow('Active', platformInfo.isActive ? '✅ Yes' : '❌ No');
+            if (platformInfo.phase) {
+                const phaseId = platformInfo.salePhase !== undefined ? ` (phase ${platformInfo.salePhase})` : '';
+                this.tableRow('Phase', platformInfo.requiresAllowlist
+                    ? this.color(`${platformInfo.phase}${phaseId} 🔒 allowlist only`, '33')
+                    : `${platformInfo.phase}${phaseId}`);
+            }
+            if (platformInfo.maxSupply && platformInfo.maxSupply > BigInt(0)) {
+                this.tableRow('Supply', `${platformInfo.totalSupply ?? 0} / ${platformInfo.maxSupply}`);
+            }
+            if (platformInfo.saleSources) {
+                this.printSaleState(platformInfo);
+            }
+
+            if (platformInfo.eligibility) {
+                this.tableRow('Eligible', platformInfo.eligibility.eligible
+                    ? '✅ Yes'
+                    : `❌ ${platformInfo.eligibility.reason || 'No'}`);
+            }
 
             // Show router contract if using singleton pattern (SeaDrop)
             if (platformInfo.routerContract) {
                 this.tableRow('Router', platformInfo.routerContract.slice(0, 12) + '...');
             }
+            if (platformInfo.instanceId !== undefined) {
+                this.tableRow('Instance', platformInfo.instanceId.toString());
+            }
+            if (platformInfo.inviteKey) {
+                this.tableRow('Invite List', platformInfo.inviteKey.slice(0, 18) + '...');
+            }
+            if (platformInfo.refund) {
+                this.tableRow('Refunds', `${platformInfo.refund.claimFunction}() - see 'refund status'`);
+            }
+            if (platformInfo.minters) {
+                Object.entries(platformInfo.minters).forEach(([stage, minter]) =>
+                    this.tableRow('Minter', `${minter.slice(0, 12)}... (${stage})`));
+            }
+
+            if (platformInfo.stages && platformInfo.stages.length > 0) {
+                this.separator();
+                this.printStages(platformInfo.stages);
+            }
+
+            if (flags.explain) {
+                this.separator();
+                this.printDetection(await platformManager.detect(platformInfo.address), true);
+                this.separator();
+                this.printSelectorReport(platformInfo);
+            }
+
+            if (platformInfo.mintProbes && platformInfo.mintProbes.length > 0) {
+                this.separator();
+                this.printMintProbes(platformInfo.mintProbes);
+            }
 
             this.separator();
             this.term.writeln('');
 
+            if (platformInfo.tokenStandard === 'ERC1155' && platformInfo.tokenId === undefined) {
+                this.warn('ERC-1155 contract: reload with --token <id> to pick the token to mint');
+            }
+
+        } else if (args[0] === 'detect') {
+            await this.handleDetect(args.slice(1), flags);
+        } else if (args[0] === 'stage') {
+            this.handleStage(args.slice(1));
+        } else if (args[0] === 'proof') {
+            await this.handleProof(args.slice(1));
+        } else if (args[0] === 'affiliate') {
+            this.handleAffiliate(args.slice(1));
+        } else if (args[0] === 'abi') {
+            await this.handleAbi(args.slice(1));
         } else {
-            this.info('Usage: contract load [address] (--platform [name]) (--func [name])');
-            this.info('Platforms: nfts2me, opensea, magiceden, generic');
+            this.info('Usage: contract load [address] (--platform [name]) (--func [name]) (--instance [id]) (--token [id]) (--list [key|name]) (--explain)');
+            this.info('       contract detect [address] (--explain) (--refresh)');
+            this.info('       contract stage [id] [json]');
+            this.info('       contract proof [json]   (no JSON: pick a proof file)');
+            this.info('       contract affiliate [address] [signature] | clear');
+            this.info('       contract abi fetch | show | clear');
+            this.info("Platforms: any name from 'platform list', or generic");
+        }
+    }
+
+    /**
+     * platform list | enable <name> | disable <name> | order [names... | reset] | import [json] | remove <name>
+     * Controls which modules take part in detection and in what order, and adds JSON-defined
+     * launchpads (all saved in this browser)
+     */
+    private async handlePlatform(args: string[]) {
+        const chainId = useWalletStore.getState().walletInfo?.chainId;
+        initializePlatformModules(chainId);
+        const manager = getPlatformManager(chainId);
+        const subCmd = args[0] || 'list';
+
+        if (subCmd === 'enable' || subCmd === 'disable') {
+            if (!args[1]) {
+                this.info(`Usage: platform ${subCmd} <name>`);
+                return;
+            }
+            const platform = manager.enablePlatform(args[1], subCmd === 'enable');
+            this.success(`${platform.name} ${subCmd}d for detection`);
+            return;
+        }
+
+        if (subCmd === 'import') {
+            let json = args.slice(1).join(' ');
+            if (!json) {
+                this.info('Select the platform definition file...');
+                json = await this.pickFile('.json,application/json');
+            }
+
+            const definition = installPlatformDefinition(json, chainId);
+            this.success(`Platform "${definition.name}" installed: ${definition.detect.length} probe(s), ${Object.keys(definition.getters).length} getter(s)`);
+            this.info(`Mint: ${toFunctionSignature(resolveAbiFunction(definition.mint.function))} · use --platform ${definition.name.toLowerCase()} to force it`);
+            return;
+        }
+
+        if (subCmd === 'remove') {
+            if (!args[1]) {
+                this.info('Usage: platform remove <name>');
+                return;
+            }
+            if (uninstallPlatformDefinition(args[1], chainId)) {
+                this.success(`Platform "${args[1]}" removed.`);
+            } else {
+                this.info(`No imported platform named "${args[1]}".`);
+            }
+            return;
+        }
+
+        if (subCmd === 'order') {
+            if (args[1] === 'reset') {
+                manager.orderPlatforms([]);
+                this.success('Detection order reset to module priorities');
+            } else if (args[1]) {
+                manager.orderPlatforms(args.slice(1));
+                this.success('Detection order saved');
+            }
+        } else if (subCmd !== 'list') {
+            this.info('Usage: platform list | enable <name> | disable <name> | order [name...] | order reset');
+            this.info('       platform import [json]   (no JSON: pick a definition file) | remove <name>');
+            return;
+        }
+
+        this.term.writeln('');
+        this.term.writeln(this.color('  🧩 PLATFORM MODULES', '1;36'));
+        this.separator();
+        manager.listPlatforms().forEach((platform, i) => {
+            const source = manager.getModule(platform.id) instanceof DeclarativeModule ? ' · json' : '';
+            const details = `${platform.id} · priority ${platform.priority}${source}`;
+            this.tableRow(`${platform.enabled ? `${i + 1}.` : '-'} ${platform.name}`,
+                platform.enabled ? details : this.color(`${details} · disabled`, '33'));
+        });
+        this.separator();
+        this.term.writeln(this.color('  Detection runs in this order; equal scores go to the higher entry.', '90'));
+        this.term.writeln('');
+    }
+
+    /**
+     * Show which platform module would handle a contract (the loaded one by default), and why
+     */
+    private async handleDetect(args: string[], flags: Record<string, string | boolean>) {
+        const address = args[0] || this.platformContract?.address;
+        if (!address || !isAddress(address)) {
+            this.info('Usage: contract detect [address] (--explain) (--refresh)');
+            return;
+        }
+
+        const chainId = useWalletStore.getState().walletInfo?.chainId ?? this.platformContract?.chainId;
+        if (!chainId) throw new Error("Connect wallet first");
+
+        initializePlatformModules(chainId);
+        const report = await getPlatformManager(chainId).detect(address, !!flags.refresh);
+
+        this.term.writeln('');
+        this.printDetection(report, !!flags.explain);
+        this.separator();
+        if (!flags.explain) {
+            this.term.writeln(this.color('  Add --explain for every module\'s score and evidence', '90'));
+        }
+        this.term.writeln('');
+    }
+
+    /**
+     * Select the stage to mint in and import its proof/signature payload.
+     * The JSON may contain: proof, signature, salt, mintParams, gateToken, gateTokenIds
+     */
+    private handleStage(args: string[]) {
+        if (!this.platformContract) throw new Error("No contract loaded");
+
+        const stageId = args[0]?.toLowerCase();
+        if (!stageId) {
+            if (this.platformContract.stages?.length) {
+                this.term.writeln('');
+                this.printStages(this.platformContract.stages);
+                this.term.writeln('');
+            } else {
+                this.info('This contract exposes no stages.');
+            }
+            this.info('Usage: contract stage <id> [json]');
+            return;
+        }
+
+        if (stageId === 'public') {
+            this.platformContract.credentials = undefined;
+            this.success('Minting in the public stage.');
+            return;
+        }
+
+        // Tokenised input loses spaces inside the JSON; rejoin before parsing
+        const json = args.slice(1).join(' ');
+        const credentials = this.parseCredentials(stageId, json);
+        this.platformContract.credentials = credentials;
+
+        this.success(`Stage selected: ${stageId}`);
+        if (credentials.proof) this.tableRow('Proof', `${credentials.proof.length} node(s)`);
+        if (credentials.signature) this.tableRow('Signature', credentials.signature.slice(0, 12) + '...');
+        if (credentials.gateTokenIds) this.tableRow('Token IDs', credentials.gateTokenIds.join(', '));
+    }
+
+    /**
+     * Attach a Merkle proof to the current stage, from pasted JSON or a proof file picked in the browser.
+     * Accepts a bare proof array, {"proof": [...]}, or a map of address -> proof (the wallet's entry is used).
+     */
+    private async handleProof(args: string[]) {
+        if (!this.platformContract) throw new Error("No contract loaded");
+
+        const wallet = useWalletStore.getState().walletInfo?.address;
+        let json = args.join(' ');
+        if (!json) {
+            this.info('Select the proof file...');
+            json = await this.pickFile('.json,application/json');
+        }
+
+        const proof = this.extractProof(json, wallet);
+        const stage = this.currentStageId();
+        this.platformContract.credentials = { ...this.platformContract.credentials, stage, proof };
+
+        this.success(`Proof attached to stage ${stage}`);
+        this.tableRow('Proof', `${proof.length} node(s)`);
+    }
+
+    private extractProof(json: string, wallet?: string): `0x${string}`[] {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(json);
+        } catch {
+            throw new Error("Invalid proof JSON");
+        }
+
+        const unwrap = (value: unknown): unknown =>
+            value && typeof value === 'object' && 'proof' in value ? (value as { proof: unknown }).proof : value;
+
+        let proof = unwrap(raw);
+        if (!Array.isArray(proof) && proof && typeof proof === 'object') {
+            // Proof file keyed by address
+            const entry = Object.entries(proof).find(([address]) => address.toLowerCase() === wallet?.toLowerCase());
+            if (!entry) throw new Error(`No proof for ${wallet || 'this wallet'} in the file`);
+            proof = unwrap(entry[1]);
+        }
+
+        if (!Array.isArray(proof) || !proof.every(node => typeof node === 'string' && /^0x[0-9a-fA-F]{64}$/.test(node))) {
+            throw new Error("Proof must be an array of bytes32 hex strings");
+        }
+
+        return proof as `0x${string}`[];
+    }
+
+    private pickFile(accept: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const input = document.createElement('input');
+            input.type = 'file';
+            input.accept = accept;
+            input.onchange = () => {
+                const file = input.files?.[0];
+                if (!file) return reject(new Error("No file selected"));
+                file.text().then(resolve, reject);
+            };
+            input.addEventListener('cancel', () => reject(new Error("No file selected")));
+            input.click();
+        });
+    }
+
+    /**
+     * Verified ABI for the loaded contract: fetch from the explorer (cached per chain/address), list, or drop it
+     */
+    private async handleAbi(args: string[]) {
+        if (!this.platformContract) throw new Error("No contract loaded");
+        const info = this.platformContract;
+
+        if (args[0] === 'fetch') {
+            this.info(`Fetching verified ABI for ${info.address}...`);
+            const entry = await fetchContractAbi(info.chainId, info.address);
+
+            const count = (type: string) => entry.abi.filter(item => item.type === type).length;
+            this.success(`ABI cached: ${count('function')} functions, ${count('event')} events, ${count('error')} errors`);
+            if (entry.implementation) {
+                this.info(`Proxy - merged implementation ABI from ${entry.implementation}`);
+            }
+
+            this.applyAbi(entry.abi);
+            return;
+        }
+
+        if (args[0] === 'import') {
+            let json = args.slice(1).join(' ');
+            if (!json) {
+                this.info('Select the ABI file...');
+                json = await this.pickFile('.json,application/json');
+            }
+
+            const abi = this.extractAbi(json);
+            saveAbi(info.chainId, info.address, { abi, source: 'import', savedAt: Date.now() });
+            this.success(`ABI imported: ${abi.filter(item => item.type === 'function').length} functions`);
+            this.applyAbi(abi);
+            return;
+        }
+
+        const stored = getStoredAbi(info.chainId, info.address);
+
+        if (args[0] === 'show') {
+            if (!stored) {
+                this.info("No ABI cached. Use 'contract abi fetch'.");
+                return;
+            }
+
+            this.term.writeln('');
+            this.term.writeln(this.color(`  ABI (${stored.source})`, '1;37'));
+            this.separator();
+            for (const item of stored.abi) {
+                if (item.type !== 'function') continue;
+                const signature = toFunctionSignature(item);
+                const mutability = item.stateMutability === 'view' || item.stateMutability === 'pure'
+                    ? this.color('read', '90')
+                    : item.stateMutability === 'payable' ? this.color('payable', '33') : 'write';
+                this.tableRow(mutability, signature, 10);
+            }
+            this.separator();
+            return;
+        }
+
+        if (args[0] === 'clear') {
+            if (removeAbi(info.chainId, info.address)) {
+                this.success('Cached ABI removed.');
+            } else {
+                this.info('No ABI cached for this contract.');
+            }
+            return;
+        }
+
+        this.info('Usage: contract abi fetch   Fetch the verified ABI (follows proxies)');
+        this.info('       contract abi import [json]   Use your own ABI (no JSON: pick a file)');
+        this.info('       contract abi show    List cached functions');
+        this.info('       contract abi clear   Drop the cached ABI');
+        this.info(stored
+            ? `Cached: ${stored.source}, ${stored.abi.length} items`
+            : 'Cached: none');
+    }
+
+    /**
+     * Generic contracts: a real ABI beats the bytecode guess for the mint function
+     */
+    private applyAbi(abi: Abi) {
+        const info = this.platformContract;
+        if (!info || info.platform !== 'generic') return;
+
+        info.selectorReport = reportFromAbi(abi);
+        const best = bestMintFunction(info.selectorReport);
+        if (best && best !== info.mintFunction) {
+            info.mintFunction = best;
+            if (this.currentContract) this.currentContract.mintFunction = best;
+            this.success(`Mint function from ABI: ${best}`);
+        }
+    }
+
+    /**
+     * Accept a bare ABI array, or an artifact/explorer payload carrying one under "abi"
+     */
+    private extractAbi(json: string): Abi {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(json);
+        } catch {
+            throw new Error("Invalid JSON");
+        }
+
+        const abi = Array.isArray(raw) ? raw : (raw as { abi?: unknown })?.abi;
+        if (!Array.isArray(abi) || !abi.every(item => item && typeof item === 'object' && 'type' in item)) {
+            throw new Error('Expected an ABI array (or an object with an "abi" array)');
+        }
+        return abi as Abi;
+    }
+
+    /**
+     * Credit an affiliate on Scatter/Archetype mints (discounted price, signature from the affiliate link)
+     */
+    private handleAffiliate(args: string[]) {
+        if (!this.platformContract) throw new Error("No contract loaded");
+
+        if (args[0] === 'clear') {
+            this.platformContract.affiliate = undefined;
+            this.success('Affiliate cleared.');
+            return;
+        }
+
+        const [address, signature] = args;
+        if (!address || !isAddress(address) || !signature || !/^0x[0-9a-fA-F]+$/.test(signature)) {
+            this.info('Usage: contract affiliate <address> <signature> | clear');
+            return;
+        }
+
+        if (this.platformContract.platform !== 'scatter') {
+            this.warn('Affiliates only apply to Scatter/Archetype mints - it will be ignored here.');
+        }
+
+        this.platformContract.affiliate = { address, signature: signature as `0x${string}` };
+        this.success(`Affiliate set: ${address.slice(0, 12)}...`);
+    }
+
+    private parseCredentials(stage: string, json: string): MintCredentials {
+        const credentials: MintCredentials = { stage };
+        if (!json) return credentials;
+
+        let raw: {
+            proof?: `0x${string}`[];
+            signature?: `0x${string}`;
+            salt?: string | number;
+            mintParams?: Record<string, string | number | boolean>;
+            gateToken?: string;
+            gateTokenIds?: (string | number)[];
+            mintIndex?: number;
+        };
+        try {
+            raw = JSON.parse(json);
+        } catch {
+            throw new Error("Invalid stage JSON");
+        }
+
+        if (Array.isArray(raw.proof)) credentials.proof = raw.proof;
+        if (raw.signature) credentials.signature = raw.signature;
+        if (raw.salt !== undefined) credentials.salt = BigInt(raw.salt);
+        if (raw.mintParams) credentials.mintParams = raw.mintParams;
+        if (raw.gateToken) credentials.gateToken = raw.gateToken;
+        if (raw.mintIndex !== undefined) credentials.mintIndex = Number(raw.mintIndex);
+        if (Array.isArray(raw.gateTokenIds)) {
+            credentials.gateTokenIds = raw.gateTokenIds.map(id => BigInt(id));
         }
+
+        return credentials;
     }
 
     private async handleSnipe(args: string[], flags: any) {
@@ -514,6 +1232,12 @@ export class TerminalController {
                 return;
             }
 
+            if (this.currentContract.requiresAllowlist && !this.hasAllowlistCredentials()) {
+                const phase = this.platformContract?.phase || 'Current phase';
+                this.warn(`${phase} is allowlist-only and this wallet has no proof attached - the mint will likely revert.`);
+                this.info("Attach one with 'contract proof [json]' or pick a stage with 'contract stage <id> [json]'.");
+            }
+
             const qty = flags.qty ? Number(flags.qty) : 1;
             const turbo = flags.turbo || flags.t ? true : false;
             const noWait = flags.nowait || flags.nw ? true : false;
@@ -524,7 +1248,7 @@ export class TerminalController {
                 this.term.writeln(this.color('  • 10x Priority Fee', '90'));
             }
 
-            // Calculate value using platform-specific logic if available
+            // Price override (per token) replaces the platform-computed value
             let priceOverride: bigint | undefined;
             if (flags.price || flags.p) {
                 try {
@@ -533,24 +1257,61 @@ export class TerminalController {
                 } catch {
                     throw new Error("Invalid price format. Use ETH (e.g. 0.05)");
                 }
-            } else if (this.platformContract) {
-                // Use platform-specific value calculation (includes fees)
-                const platformValue = this.platformContract.getTotalValue(qty);
-                if (platformValue !== this.currentContract.mintPrice * BigInt(qty)) {
-                    this.info(`Platform fee detected: Total = ${formatEther(platformValue)} ETH`);
-                    priceOverride = platformValue / BigInt(qty);
-                }
             }
 
             this.info(`Preparing snipe for ${qty} tokens...`);
 
             const gasSettings = await this.engine.getGasPrice(turbo);
-            const preparedTx = await this.engine.prepareTransaction(this.currentContract, qty, gasSettings, priceOverride, turbo);
+            let preparedTx;
+
+            if (this.platformContract && walletInfo) {
+                // Platform modules know the exact target, ABI and arguments
+                const manual = flags.func
+                    ? this.buildManualCall(String(flags.func), typeof flags.args === 'string' ? flags.args : '', qty, walletInfo.address)
+                    : undefined;
+                const call = manual || await getPlatformManager(this.platformContract.chainId)
+                    .buildMintCall(this.platformContract, qty, walletInfo.address);
+
+                if (priceOverride !== undefined) {
+                    call.value = priceOverride * BigInt(qty);
+                } else {
+                    // Turbo itemises the built call (which already priced the mint) instead of quoting again
+                    const quote = turbo
+                        ? quoteFromCall(this.platformContract, qty, call)
+                        : await getPlatformManager(this.platformContract.chainId)
+                            .quote(this.platformContract, qty, { wallet: walletInfo.address });
+                    this.printQuote(quote);
+                    if (quote.total !== call.value) {
+                        this.warn(`Quoted ${formatEther(quote.total)} ETH but the call sends ${formatEther(call.value)} ETH`);
+                    }
+
+                    // Getters missing or conflicting: send the per-token price simulation found at load
+                    if (!manual && this.priceUncertain(this.platformContract)) {
+                        const discovered = this.platformContract.discoveredPrice;
+                        const minimum = discovered !== undefined ? discovered * BigInt(qty) : undefined;
+                        if (minimum === undefined) {
+                            this.warn(`Price getters missing or disagree and the simulated price was ${this.discoveryNote(this.platformContract)}`);
+                        } else if (minimum !== call.value) {
+                            this.warn(`Getter price sends ${formatEther(call.value)} ETH but the mint needs ${formatEther(minimum)} ETH - sending ${formatEther(minimum)} ETH`);
+                            call.value = minimum;
+                        }
+                    }
+                }
+
+                // ERC20-priced mints need the allowance in place before simulation
+                if (call.payment) {
+                    await this.ensurePayment(call.payment);
+                }
+
+                preparedTx = await this.engine.prepareCall(call, gasSettings, turbo, this.currentContract);
+            } else {
+                preparedTx = await this.engine.prepareTransaction(this.currentContract, qty, gasSettings, priceOverride, turbo);
+            }
 
             // DEBUG: Show user what we are sending
             this.term.writeln(this.color('  🔍 DEBUG PAYLOAD:', '90'));
             this.term.writeln(this.color(`  • Platform: ${this.platformContract?.platform || 'generic'}`, '90'));
-            this.term.writeln(this.color(`  • Function: ${this.currentContract.mintFunction}`, '90'));
+            this.term.writeln(this.color(`  • Function: ${flags.func || this.currentContract.mintFunction}`, '90'));
             this.term.writeln(this.color(`  • Data: ${preparedTx.data.substring(0, 50)}...`, '90'));
             this.term.writeln(this.color(`  • Value: ${formatEther(preparedTx.value || BigInt(0))} ETH`, '90'));
             this.term.writeln(this.color(`  • Gas: ${preparedTx.gas?.toString() || 'Auto'}`, '90'));
@@ -560,6 +1321,11 @@ export class TerminalController {
             const txHash = await this.engine.execute();
             this.success(`Transaction Hash: ${txHash}`);
 
+            // Remember the mint for auction refunds; it is settled from the receipt later
+            if (walletInfo) {
+                recordSentMint(this.currentContract.chainId, this.currentContract.address, walletInfo.address, qty, txHash);
+            }
+
             // Fire-and-forget mode: Don't wait for receipt
             if (noWait || turbo) {
                 this.info('Transaction sent! Not waiting for confirmation (speed mode).');
@@ -580,17 +1346,84 @@ export class TerminalController {
                 this.error(`Transaction Failed: ${e.message}`);
             }
 
+        } else if (args[0] === 'approve') {
+            await this.handleApprove(flags);
         } else if (args[0] === 'monitor') {
             await this.handleMonitor(flags);
+        } else if (args[0] === 'auction') {
+            await this.handleAuction(flags);
         } else if (args[0] === 'stop') {
             this.stopMonitor();
         } else {
-            this.info('Usage: snipe start --qty [N] [--price 0.01]');
+            this.info('Usage: snipe start --qty [N] [--price 0.01] [--func <sig|name> --args <values...>]');
+            this.info('       snipe approve [--qty N] [--max]   (ERC20-priced mints)');
             this.info('       snipe monitor [--qty N] [--interval 2]');
+            this.info('       snipe auction [--target 0.05] [--qty N] [--interval 2]   (Dutch auctions)');
             this.info('       snipe stop');
         }
     }
 
+    /**
+     * Mint through any function: --func takes a signature (or a name from the ABI), --args its
+     * values, with {qty} and {me} filled in per call
+     */
+    private buildManualCall(func: string, rawArgs: string, qty: number, wallet: string): MintCall {
+        const info = this.platformContract!;
+        const values = splitArgs(rawArgs);
+        const fn = resolveAbiFunction(func, knownAbi(info.chainId, info.address), values.length);
+
+        this.info(`Manual call: ${toFunctionSignature(fn)}`);
+        return buildArgsCall(info.address, fn, values, { qty, me: wallet }, info.getTotalValue(qty));
+    }
+
+    /**
+     * Check balance/allowance for an ERC20-priced mint and approve the shortfall
+     */
+    private async ensurePayment(payment: NonNullable<MintCall['payment']>) {
+        const meta = this.platformContract?.payment;
+        const format = (amount: bigint) => meta ? `${formatUnits(amount, meta.decimals)} ${meta.symbol}` : amount.toString();
+
+        const { balance, allowance } = await this.engine!.getTokenState(payment.token, payment.spender);
+        if (balance < payment.amount) {
+            throw new Error(`Insufficient token balance: have ${format(balance)}, need ${format(payment.amount)}`);
+        }
+
+        if (allowance >= payment.amount) {
+            this.info(`Allowance OK: ${format(allowance)}`);
+            return;
+        }
+
+        this.warn(`Approving ${format(payment.amount)} for ${payment.spender.slice(0, 12)}...`);
+        const hash = await this.engine!.approveToken(payment.token, payment.spender, payment.amount);
+        this.success(`Approved: ${hash}`);
+    }
+
+    /**
+     * Pre-stage the ERC20 approval before the sale opens, so the mint is a single transaction
+     */
+    private async handleApprove(flags: Record<string, string | boolean>) {
+        if (!this.platformContract || !this.engine) throw new Error("No contract loaded or wallet connected");
+
+        const payment = this.platformContract.payment;
+        if (!payment) {
+            this.info('This mint is priced in native currency - nothing to approve.');
+            return;
+        }
+
+        const qty = flags.qty ? Number(flags.qty) : 1;
+        const amount = flags.max ? maxUint256 : payment.price * BigInt(qty);
+
+        const { allowance } = await this.engine.getTokenState(payment.address, payment.spender);
+        if (allowance >= amount) {
+            this.success(`Allowance already covers ${flags.max ? 'unlimited' : `${qty} mint(s)`}.`);
+            return;
+        }
+
+        this.warn(`Approving ${flags.max ? 'unlimited' : `${formatUnits(amount, payment.decimals)}`} ${payment.symbol} for ${payment.spender.slice(0, 12)}...`);
+        const hash = await this.engine.approveToken(payment.address, payment.spender, amount);
+        this.success(`Approved: ${hash}`);
+    }
+
     private async handleMonitor(flags: any) {
         if (!this.currentContract || !this.engine) {
             throw new Error("No contract loaded or wallet connected");
@@ -639,7 +1472,8 @@ export class TerminalController {
                 // Re-analyze to get fresh isActive status
                 const freshInfo = await this.analyzer!.analyze(this.currentContract!.address);
 
-                if (freshInfo.isActive) {
+                // An allowlist-only phase doesn't count unless this wallet has a proof for it
+                if (freshInfo.isActive && (!freshInfo.requiresAllowlist || this.hasAllowlistCredentials())) {
                     this.stopMonitor();
                     this.term.writeln('');
                     this.success('🚨 SALE IS ACTIVE! Executing snipe...');
@@ -654,6 +1488,425 @@ export class TerminalController {
         }, intervalSec * 1000);
     }
 
+    /**
+     * Print the Dutch auction schedule, then wait for the price to fall to the target and mint.
+     * Fires only when the on-chain price at the latest block and the curve's price at the
+     * block the transaction will land in are both at or below the target.
+     */
+    private async handleAuction(flags: Record<string, string | boolean>) {
+        if (!this.platformContract || !this.engine) {
+            throw new Error("No contract loaded or wallet connected");
+        }
+
+        const curve = this.platformContract.auction;
+        if (!curve) {
+            throw new Error("No Dutch auction config on this contract (dutchAuctionConfig() not found)");
+        }
+
+        if (this.isMonitoring) {
+            this.warn('Already monitoring. Use "snipe stop" to cancel.');
+            return;
+        }
+
+        const qty = flags.qty ? Number(flags.qty) : 1;
+        const intervalSec = flags.interval ? Number(flags.interval) : 2;
+
+        let target: bigint | undefined;
+        if (flags.target) {
+            try {
+                target = parseEther(String(flags.target));
+            } catch {
+                throw new Error(`Invalid target price: ${flags.target}`);
+            }
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const reached = target !== undefined ? auctionTimeAt(curve, target) : undefined;
+
+        this.term.writeln('');
+        this.term.writeln(this.color('  📉 DUTCH AUCTION SCHEDULE', '1;36'));
+        this.separator();
+        for (const level of auctionSchedule(curve)) {
+            const marker = reached !== undefined && level.time >= reached ? this.color(' ◀ target', '32') : '';
+            this.tableRow(this.formatTime(level.time), `${this.formatPrice(level.price)}${marker}`, 24);
+        }
+        this.separator();
+        this.tableRow('Curve', curve.stepInterval > 0 ? `Stepped, every ${this.formatCountdown(curve.stepInterval)}` : 'Linear');
+        this.tableRow('Now', this.formatPrice(auctionPriceAt(curve, now)));
+
+        if (target === undefined) {
+            this.info('Add --target <eth> to mint automatically once the price falls that far.');
+            return;
+        }
+
+        this.tableRow('Target', this.formatPrice(target));
+        if (reached === undefined) {
+            this.tableRow('Reached', this.color('Never (below resting price)', '31'));
+            this.warn(`The auction bottoms out at ${this.formatPrice(curve.endPrice)}.`);
+            return;
+        }
+        this.tableRow('Reached', reached > now ? `${this.formatTime(reached)} (in ${this.formatCountdown(reached - now)})` : this.color('Already', '32'));
+        this.separator();
+
+        const walletInfo = useWalletStore.getState().walletInfo;
+        if (walletInfo && walletInfo.chainId !== this.platformContract.chainId) {
+            this.error(`Chain Mismatch!`);
+            this.term.writeln(`  Target: ${this.platformContract.chainId}`);
+            this.term.writeln(`  Wallet: ${walletInfo.chainId}`);
+            this.warn(`Switch networks using 'network switch <name>'`);
+            return;
+        }
+
+        this.isMonitoring = true;
+        this.term.writeln(this.color(`  Waiting for ${this.formatPrice(target)} (qty ${qty}, every ${intervalSec}s)...`, '90'));
+        this.term.writeln(this.color('  Type "snipe stop" to cancel.', '90'));
+        this.term.writeln('');
+
+        const manager = getPlatformManager(this.platformContract.chainId);
+        let checking = false;
+
+        this.monitorIntervalId = setInterval(async () => {
+            if (!this.isMonitoring) {
+                this.stopMonitor();
+                return;
+            }
+            // Skip ticks while a slow RPC round-trip is still in flight
+            if (checking) return;
+            checking = true;
+
+            try {
+                const block = await this.engine!.getBlockTiming();
+                const quote = await manager.quote(this.platformContract!, 1, { blockNumber: block.number });
+                const landing = auctionPriceAt(curve, Number(block.nextTimestamp));
+
+                this.term.write(`\r  ⏳ Block ${block.number}: ${this.formatPrice(quote.basePrice)} → landing ${this.formatPrice(landing)}   `);
+
+                if (quote.basePrice <= target! && landing <= target!) {
+                    this.stopMonitor();
+                    this.success('🎯 TARGET PRICE REACHED! Executing snipe...');
+                    await this.handleSnipe(['start'], { qty: qty.toString() });
+                }
+            } catch (e) {
+                // Don't stop on individual check failures
+                const message = e instanceof Error ? e.message : String(e);
+                this.term.write(`\r  ⚠️ Check failed: ${message.substring(0, 30)}...`);
+            } finally {
+                checking = false;
+            }
+        }, intervalSec * 1000);
+    }
+
+    /**
+     * allowlist import [addresses...] (--stage id) (--params json) (--wallets 0x..,0x..) | show | clear
+     * Rebuilds a stage's Merkle tree from an address list with the platform's leaf encoding,
+     * checks it against the on-chain root and stores the proofs for our wallets. Stored proofs
+     * are attached to mints automatically while their stage is open.
+     */
+    private async handleAllowlist(args: string[], flags: Record<string, string | boolean>) {
+        const info = this.platformContract;
+        if (!info) throw new Error("No contract loaded");
+        const subCmd = args[0] || 'show';
+
+        if (subCmd === 'clear') {
+            const count = clearAllowlists(info.chainId, info.address);
+            this.success(`Removed ${count} allowlist(s) for ${info.name}`);
+            return;
+        }
+
+        if (subCmd === 'show') {
+            const lists = getAllowlists(info.chainId, info.address);
+            if (lists.length === 0) {
+                this.info("No allowlists imported for this contract. Use 'allowlist import [--stage id]'.");
+                return;
+            }
+
+            this.term.writeln('');
+            this.term.writeln(this.color('  🌳 ALLOWLISTS', '1;36'));
+            this.separator();
+            for (const list of lists) {
+                const check = list.matched ? '✅ root matches'
+                    : list.matched === false ? '❌ root differs (not used)' : '⚠️ root not verified';
+                this.tableRow(list.stage, `${list.entries} entries · ${check}`);
+                Object.entries(list.proofs).forEach(([wallet, stored]) =>
+                    this.term.writeln(this.color(`      ${wallet} · ${stored.proof.length} node(s)`, '90')));
+            }
+            this.separator();
+            return;
+        }
+
+        if (subCmd !== 'import') {
+            this.info('Usage: allowlist import [addresses...] (--stage id) (--params json) (--wallets 0x..,0x..)');
+            this.info('       allowlist show | clear');
+            return;
+        }
+
+        // Anything after the subcommand is the pasted list
+        const rest = args.slice(1);
+        const stageId = typeof flags.stage === 'string' ? flags.stage : undefined;
+
+        let mintParams: Record<string, string | number | boolean> | undefined;
+        if (typeof flags.params === 'string') {
+            try {
+                mintParams = JSON.parse(flags.params);
+            } catch {
+                throw new Error("Invalid --params JSON");
+            }
+        }
+
+        const manager = getPlatformManager(info.chainId);
+        const stage = manager.allowlistStage(info, stageId);
+        const encoding = manager.allowlistEncoding(info, stage, mintParams);
+
+        let text = rest.join('\n');
+        if (!text) {
+            this.info('Select the allowlist file (addresses, CSV or JSON)...');
+            text = await this.pickFile('.csv,.txt,.json,text/csv,text/plain,application/json');
+        }
+
+        const entries = parseAllowlist(text);
+        const build = buildAllowlist(entries, encoding, stage.merkleRoot);
+
+        // Proofs for the connected wallet and any others named
+        const wallet = useWalletStore.getState().walletInfo?.address;
+        const wallets = [wallet, ...(typeof flags.wallets === 'string' ? flags.wallets.split(',') : [])]
+            .filter((address): address is string => !!address && isAddress(address, { strict: false }));
+        const proofs: Record<string, StoredProof> = {};
+        for (const address of wallets) {
+            const credentials = build.credentialsFor(address);
+            if (credentials?.proof) {
+                const { stage: proofStage, proof, mintParams: params, mintIndex } = credentials;
+                proofs[address.toLowerCase()] = { stage: proofStage, proof, mintParams: params, mintIndex };
+            }
+        }
+
+        saveAllowlist(info.chainId, info.address, {
+            stage: stage.id,
+            root: build.tree.root,
+            matched: stage.merkleRoot ? build.matched : undefined,
+            layout: build.tree.layout,
+            entries: entries.length,
+            importedAt: Date.now(),
+            proofs,
+        });
+
+        this.term.writeln('');
+        this.term.writeln(this.color('  🌳 ALLOWLIST IMPORTED', '1;36'));
+        this.separator();
+        this.tableRow('Stage', `${stage.name} (${stage.id})`);
+        this.tableRow('Entries', entries.length.toString());
+        this.tableRow('Leaf', encoding.description);
+        this.tableRow('Root', build.tree.root);
+        if (!stage.merkleRoot) {
+            this.tableRow('On-chain', this.color('no root readable - not verified', '90'));
+        } else if (build.matched) {
+            this.tableRow('On-chain', `✅ matches (${build.tree.layout} tree)`);
+        } else {
+            this.tableRow('On-chain', this.color(`❌ ${stage.merkleRoot} differs`, '31'));
+        }
+        for (const address of wallets) {
+            const stored = proofs[address.toLowerCase()];
+            this.tableRow('Wallet', stored
+                ? `${address.slice(0, 10)}... ✅ proof stored (${stored.proof.length} nodes)`
+                : this.color(`${address.slice(0, 10)}... ❌ not on the list`, '33'));
+        }
+        this.separator();
+
+        if (stage.merkleRoot && !build.matched) {
+            this.warn('Proofs will not verify against the on-chain root, so they will not be attached. Check the list is complete and unmodified (and the --params for SeaDrop).');
+            return;
+        }
+        if (!stage.merkleRoot) {
+            this.warn('The on-chain root could not be read, so the proofs are unchecked. A mint with a wrong proof reverts.');
+        }
+
+        // Use it right away when its stage is open (or may be) and nothing else was selected
+        const own = wallet ? proofs[wallet.toLowerCase()] : undefined;
+        if (own && !info.credentials && (stage.isActive || stage.offChain || !info.stages?.length)) {
+            info.credentials = own;
+            this.success(`Proof attached - mints go through stage ${own.stage}`);
+        }
+    }
+
+    /**
+     * Settle the ledger's sent mints from their receipts: what was minted to the wallet and the
+     * value paid. Reverted mints are dropped; pending ones stay for the next check.
+     */
+    private async settleSentMints(info: PlatformContractInfo) {
+        const manager = getPlatformManager(info.chainId);
+        for (const [wallet, entry] of Object.entries(getLedger(info.chainId, info.address))) {
+            for (const [txHash, asked] of Object.entries(entry.pending || {})) {
+                const result = await manager.readMintReceipt(txHash as `0x${string}`, info.address, wallet).catch(() => undefined);
+                if (!result) continue;
+
+                // Mints through a router may not emit a transfer from this contract: count what was asked for
+                settleMint(info.chainId, info.address, wallet, txHash,
+                    result.success ? { quantity: result.quantity || asked, paid: result.paid } : undefined);
+            }
+        }
+    }
+
+    /**
+     * Show what each of our wallets can reclaim from a settled Dutch auction, or claim the
+     * connected wallet's refund. The app holds one wallet at a time, so each other wallet in the
+     * ledger claims once it is connected.
+     */
+    private async handleRefund(args: string[]) {
+        if (!this.platformContract) throw new Error("No contract loaded");
+        const info = this.platformContract;
+
+        if (!info.refund) {
+            this.info(`${info.name} has no refund function.`);
+            return;
+        }
+
+        const subCmd = args[0] || 'status';
+        if (subCmd !== 'status' && subCmd !== 'claim') {
+            this.info('Usage: refund status | claim   (claim: the connected wallet\'s refund)');
+            return;
+        }
+
+        const manager = getPlatformManager(info.chainId);
+        await this.settleSentMints(info);
+
+        const ledger = getLedger(info.chainId, info.address);
+        const wallets = Object.keys(ledger);
+        if (wallets.length === 0) {
+            this.warn('No recorded mints from our wallets on this contract.');
+            return;
+        }
+        const connected = useWalletStore.getState().walletInfo?.address.toLowerCase();
+
+        this.term.writeln('');
+        this.term.writeln(this.color('  💸 REFUNDS', '1;36'));
+        this.separator();
+
+        const claimable: Record<string, bigint> = {};
+        let settledPrice: bigint | undefined;
+        for (const wallet of wallets) {
+            const entry = ledger[wallet];
+            const label = `${wallet.slice(0, 10)}...${wallet === connected ? ' *' : ''}`;
+
+            if (entry.refundTx) {
+                this.tableRow(label, this.color(`Claimed (${entry.refundTx.slice(0, 12)}...)`, '90'));
+                continue;
+            }
+            const pending = Object.keys(entry.pending || {}).length;
+            if (pending > 0) {
+                this.term.writeln(this.color(`      ${pending} mint(s) from ${label} not confirmed yet`, '90'));
+            }
+            if (entry.txs.length === 0) continue;
+
+            try {
+                const status = await manager.refundStatus(info, wallet, { quantity: entry.quantity, paid: BigInt(entry.paid) });
+                settledPrice = status.settledPrice ?? settledPrice;
+                claimable[wallet] = status.claimable;
+
+                const paid = `paid ${this.formatPrice(BigInt(entry.paid))} for ${entry.quantity}`;
+                this.tableRow(label, status.settled
+                    ? `${this.formatPrice(status.claimable)} claimable (${paid})`
+                    : status.estimate !== undefined
+                        ? this.color(`~${this.formatPrice(status.estimate)} estimated, no final price on-chain yet (${paid})`, '33')
+                        : this.color(`Auction not settled (${paid})`, '33'));
+            } catch (e) {
+                this.tableRow(label, this.color(`Check failed: ${e instanceof Error ? e.message : e}`, '31'));
+            }
+        }
+
+        if (settledPrice !== undefined) {
+            this.tableRow('Settled Price', this.formatPrice(settledPrice));
+        }
+        this.separator();
+
+        if (subCmd !== 'claim') return;
+
+        if (!this.engine || !connected) throw new Error("Connect the wallet to claim from first");
+
+        for (const wallet of wallets) {
+            if (wallet !== connected && !ledger[wallet].refundTx && claimable[wallet]) {
+                this.warn(`${wallet.slice(0, 10)}... has ${this.formatPrice(claimable[wallet])} to claim - connect that wallet and run 'refund claim' again.`);
+            }
+        }
+
+        if (ledger[connected]?.refundTx || !claimable[connected]) {
+            this.info('Nothing to claim for the connected wallet.');
+            return;
+        }
+
+        this.info(`Claiming ${this.formatPrice(claimable[connected])} for ${connected.slice(0, 10)}...`);
+        const call = await manager.buildRefundCall(info, connected);
+        const gasSettings = await this.engine.getGasPrice();
+        await this.engine.prepareCall(call, gasSettings);
+        const txHash = await this.engine.execute();
+
+        const receipt = await this.engine.waitForReceipt(txHash);
+        if (receipt.status === 'success') {
+            recordRefund(info.chainId, info.address, connected, txHash);
+            this.success(`Refund claimed: ${txHash}`);
+        } else {
+            this.error(`Refund claim reverted: ${txHash}`);
+        }
+    }
+
+    /**
+     * read | call | send <fn> [args] against the loaded contract. Functions resolve by name
+     * from its known/imported ABI, or by full signature ('getPrice(uint256) view returns (uint256)').
+     */
+    private async handleFunction(mode: string, args: string[], flags: Record<string, string | boolean>) {
+        if (!this.platformContract) throw new Error("No contract loaded");
+        const info = this.platformContract;
+
+        const func = args[0];
+        if (!func) {
+            this.info(`Usage: ${mode} <name|signature> [args...]${mode === 'read' ? '' : ' [--value ETH]'}`);
+            return;
+        }
+
+        const wallet = useWalletStore.getState().walletInfo?.address;
+        if (mode !== 'read' && (!this.engine || !wallet)) throw new Error("Connect wallet first");
+
+        // Values may also come via --args, which keeps spaces inside [..] and (..)
+        const values = splitArgs(typeof flags.args === 'string' ? flags.args : args.slice(1).join(' '));
+        const fn = resolveAbiFunction(func, knownAbi(info.chainId, info.address), values.length);
+        const callArgs = parseAbiArgs(fn, values, { qty: 1, me: wallet || '' });
+
+        let value = BigInt(0);
+        if (flags.value !== undefined) {
+            try {
+                value = parseEther(String(flags.value));
+            } catch {
+                throw new Error("Invalid value format. Use ETH (e.g. 0.05)");
+            }
+            if (value > BigInt(0) && fn.stateMutability !== 'payable') {
+                throw new Error(`${fn.name} is ${fn.stateMutability} - it can't take --value`);
+            }
+        }
+
+        this.info(`${mode === 'send' ? 'Sending' : 'Calling'} ${toFunctionSignature(fn)}${value ? ` with ${formatEther(value)} ETH` : ''}`);
+
+        if (mode === 'send') {
+            const gasSettings = await this.engine!.getGasPrice();
+            await this.engine!.prepareCall({ to: info.address as `0x${string}`, abi: [fn], functionName: fn.name, args: callArgs, value }, gasSettings);
+            const txHash = await this.engine!.execute();
+            this.success(`TX Sent: ${txHash}`);
+
+            const receipt = await this.engine!.waitForReceipt(txHash);
+            if (receipt.status === 'success') {
+                this.success(`Confirmed in block ${receipt.blockNumber}`);
+            } else {
+                this.error(`Transaction reverted: ${txHash}`);
+            }
+            return;
+        }
+
+        // Reads don't need a connected wallet
+        const engine = this.engine || new ViemMintingEngine(info.chainId);
+        const result = await engine.callFunction(info.address as `0x${string}`, fn, callArgs, value, mode === 'call');
+
+        this.term.writeln('');
+        formatAbiResult(fn, result).forEach(line => this.term.writeln(`  ${this.color('→', '32')} ${line}`));
+        this.term.writeln('');
+    }
+
     private stopMonitor() {
         if (this.monitorIntervalId) {
             clearInterval(this.monitorIntervalId);
@@ -707,6 +1960,12 @@ export class TerminalController {
             this.separator();
             this.tableRow('Target', this.currentContract.address.substring(0, 10) + '...');
             this.tableRow('Func', this.currentContract.mintFunction);
+            if (this.platformContract?.tokenId !== undefined) {
+                this.tableRow('Token', `${this.platformContract.tokenStandard} #${this.platformContract.tokenId}`);
+            }
+            if (this.platformContract?.credentials) {
+                this.tableRow('Stage', this.platformContract.credentials.stage);
+            }
         } else {
             this.separator();
             this.tableRow('Target', this.color('NONE', '90'));
@@ -1019,6 +2278,42 @@ export class TerminalController {
             return;
         }
 
+        // === CONFIG EXPLORER (ABI source per chain) ===
+        if (subCmd === 'explorer') {
+            const { getExplorerApiUrl, getCustomExplorerApi, setCustomExplorerApi, getExplorerKey, setExplorerKey } = await import('../config/explorer');
+            const { walletInfo } = useWalletStore.getState();
+            const currentChainId = walletInfo?.chainId || 1;
+            const value = args[1];
+
+            if (!value) {
+                this.info('Usage: config explorer <url>     Set the Etherscan-compatible API for this chain');
+                this.info('       config explorer clear     Use the API derived from the network explorer');
+                this.info('       config explorer key <key> Set the explorer API key');
+                this.term.writeln('');
+                this.tableRow('Chain ID', currentChainId.toString(), 15);
+                this.tableRow('API', `${getExplorerApiUrl(currentChainId) || 'none'}${getCustomExplorerApi(currentChainId) ? ' (custom)' : ''}`, 15);
+                this.tableRow('API Key', getExplorerKey() ? 'set' : 'none', 15);
+                this.term.writeln('');
+                return;
+            }
+
+            if (value === 'key') {
+                setExplorerKey(args[2] || '');
+                this.success(args[2] ? 'Explorer API key saved.' : 'Explorer API key cleared.');
+            } else if (value === 'clear') {
+                setCustomExplorerApi(currentChainId, '');
+                this.success(`Explorer API reset for chain ${currentChainId}: ${getExplorerApiUrl(currentChainId) || 'none'}`);
+            } else {
+                if (!value.startsWith('http://') && !value.startsWith('https://')) {
+                    this.error('Invalid URL. Must start with http:// or https://');
+                    return;
+                }
+                setCustomExplorerApi(currentChainId, value);
+                this.success(`Explorer API saved for chain ${currentChainId}.`);
+            }
+            return;
+        }
+
         // === DEFAULT HELP ===
         this.info('Config commands:');
         this.info('  config add <provider> <key>    Add a provider');
@@ -1026,6 +2321,7 @@ export class TerminalController {
         this.info('  config list                    Show stored providers');
         this.info('  config remove <provider>       Remove a provider');
         this.info('  config rpc <url>               Set custom RPC for chain');
+        this.info('  config explorer <url>          Set ABI explorer API for chain');
     }
 
     private async handleRpc() {
@@ -2,19 +2,20 @@ import {
     createPublicClient,
     http,
     parseAbi,
-    custom
+    custom,
+    encodeFunctionData,
+    parseEther,
+    parseGwei
 } from 'viem';
 import { getChainById } from '../config/chains';
+import { getStoredAbi } from '../config/abiStorage';
+import { decodeRevertReason } from '../utils/revert';
+import { findMintCandidates, bestMintFunction, type SelectorReport } from './SelectorExtractor';
+import { buildSignatureCall } from './platforms/PlatformManager';
+import { readSaleState } from './SaleStateHeuristics';
 
 // Parse ABIs for type safety
 const nameAbi = parseAbi(['function name() view returns (string)']);
-const totalSupplyAbi = parseAbi(['function totalSupply() view returns (uint256)']);
-const maxSupplyAbi = parseAbi(['function maxSupply() view returns (uint256)']);
-const pausedAbi = parseAbi(['function paused() view returns (bool)']);
-const isActiveAbi = parseAbi(['function isActive() view returns (bool)']);
-const saleActiveAbi = parseAbi(['function saleActive() view returns (bool)']);
-const maxPerWalletAbi = parseAbi(['function maxPerWallet() view returns (uint256)']);
-const walletLimitAbi = parseAbi(['function walletLimit() view returns (uint256)']);
 
 // Price ABIs
 const costAbi = parseAbi(['function cost() view returns (uint256)']);
@@ -44,6 +45,40 @@ const BASE_ABI = [
     'function purchase(uint256 amount) payable',
 ] as const;
 
+// Simulated in order when the bytecode scan found nothing callable
+const PROBE_SIGNATURES = [
+    'mint(uint256)',
+    'publicMint(uint256)',
+    'mint(address,uint256)',
+    'safeMint(address,uint256)',
+    'purchase(uint256)',
+    'claim(uint256)',
+    'mint()',
+];
+
+// Price discovery: funds the simulated wallet, and bounds/resolves the search
+const SIMULATION_BALANCE = parseEther('1000000');
+const MAX_DISCOVERED_PRICE = parseEther('100');
+const PRICE_STEP = parseGwei('1');
+
+/**
+ * Minimum value the mint simulation accepted, or why none was found: it reverted at every
+ * value tried, or the RPC rejects state overrides and the wallet's own balance wasn't enough
+ */
+export interface PriceDiscovery {
+    price?: bigint;
+    failure?: 'reverts' | 'no-override';
+}
+
+/**
+ * Outcome of simulating one candidate mint function
+ */
+export interface MintProbe {
+    signature: string;
+    ok: boolean;
+    reason?: string;
+}
+
 export interface ContractInfo {
     address: string;
     abi: readonly string[];
@@ -56,12 +91,35 @@ export interface ContractInfo {
     name?: string;
     chainId: number;
     maxPerWallet?: bigint;
+    maxPerTx?: bigint;
+    // Current phase: Public, Allowlist, Closed... (see SaleStateHeuristics)
+    phase?: string;
+    // Sale phase enum (0 closed) and schedule (unix seconds), when the contract exposes them
+    salePhase?: number;
+    saleStart?: number;
+    saleEnd?: number;
+    // Allowlist root from the sale-state getters
+    merkleRoot?: `0x${string}`;
+    // Getter(s) each sale-state value came from, by field (see SaleStateHeuristics)
+    saleSources?: Record<string, string>;
+    // Mint functions found in the bytecode, when the mint function was auto-discovered
+    selectorReport?: SelectorReport;
+    // Candidates simulated from the wallet, in order, up to the first that succeeded
+    mintProbes?: MintProbe[];
+    // Every price getter that answered, by name
+    priceGetters?: Record<string, bigint>;
+    // Minimum value (one token) the mint simulation accepts - set when getters are missing or disagree
+    discoveredPrice?: bigint;
+    // Why discovery found no price
+    discoveryFailure?: PriceDiscovery['failure'];
 }
 
 export class ViemContractAnalyzer {
     // Using 'any' to work around viem's strict type inference with dynamic chains
     private publicClient: any;
     private chainId: number;
+    // Whether the RPC accepts eth_call state overrides (checked once)
+    private overrideSupport?: Promise<boolean>;
 
     constructor(chainId: number = 1, useWindowEthereum: boolean = false) {
         const chain = getChainById(chainId);
@@ -86,12 +144,17 @@ export class ViemContractAnalyzer {
         this.chainId = client.chain?.id || 1;
     }
 
-    async analyze(address: string, mintFuncOverride?: string): Promise<ContractInfo> {
+    /**
+     * @param wallet When set (and no override is given), candidate mint functions are simulated
+     * from this wallet and the first that succeeds is adopted
+     */
+    async analyze(address: string, mintFuncOverride?: string, wallet?: string): Promise<ContractInfo> {
         const contractAddress = address as `0x${string}`;
 
         // Build mint function signature
         let mintFunction: string;
         let abi: string[] = [...BASE_ABI] as string[];
+        let selectorReport: SelectorReport | undefined;
 
         if (mintFuncOverride) {
             // Check if we have it in ABI
@@ -102,8 +165,18 @@ export class ViemContractAnalyzer {
             }
             mintFunction = `${mintFuncOverride}(uint256)`;
         } else {
-            mintFunction = 'mint(uint256)';
-            console.warn("⚠️ No mint function specified. Defaulting to 'mint(uint256)'. If this fails, use 'contract load [addr] --func [name]'");
+            // Match the bytecode's selectors (or the cached verified ABI) against known mint signatures
+            const storedAbi = getStoredAbi(this.chainId, address)?.abi;
+            selectorReport = await findMintCandidates(this.publicClient, contractAddress, storedAbi).catch(() => undefined);
+            const discovered = selectorReport && bestMintFunction(selectorReport);
+
+            if (discovered) {
+                mintFunction = discovered;
+                console.log(`🔎 Mint function from ${selectorReport!.source}: ${discovered}`);
+            } else {
+                mintFunction = 'mint(uint256)';
+                console.warn("⚠️ No known mint function in bytecode. Defaulting to 'mint(uint256)'. If this fails, use 'contract load [addr] --func [name]'");
+            }
         }
 
         // Helper to safely read contract
@@ -115,8 +188,8 @@ export class ViemContractAnalyzer {
             }
         };
 
-        // Race for price - try multiple function names
-        const getPrice = async (): Promise<bigint> => {
+        // Read every price getter - a stale constant can sit next to the live price
+        const getPrices = async (): Promise<Record<string, bigint>> => {
             const priceCalls = [
                 this.publicClient.readContract({ address: contractAddress, abi: costAbi, functionName: 'cost' }),
                 this.publicClient.readContract({ address: contractAddress, abi: priceAbi, functionName: 'price' }),
@@ -128,54 +201,172 @@ export class ViemContractAnalyzer {
                 this.publicClient.readContract({ address: contractAddress, abi: valueAbi, functionName: 'value' }),
             ];
 
-            try {
-                const result = await Promise.any(priceCalls);
-                return result as bigint;
-            } catch {
-                return BigInt(0);
-            }
+            const names = ['cost', 'price', 'mintPrice', 'salePrice', 'tokenPrice', 'MINT_PRICE', 'PRICE', 'value'];
+            const results = await Promise.allSettled(priceCalls);
+
+            const prices: Record<string, bigint> = {};
+            results.forEach((result, i) => {
+                if (result.status === 'fulfilled') prices[names[i]] = result.value as bigint;
+            });
+            return prices;
         };
 
         // Parallel fetch all data
-        const [
-            name,
-            totalSupply,
-            maxSupply,
-            finalPrice,
-            paused,
-            isActive,
-            saleActive,
-            maxPerWallet,
-            walletLimit
-        ] = await Promise.all([
+        const [name, priceGetters, saleState] = await Promise.all([
             safeRead(this.publicClient.readContract({ address: contractAddress, abi: nameAbi, functionName: 'name' }), 'Unknown'),
-            safeRead(this.publicClient.readContract({ address: contractAddress, abi: totalSupplyAbi, functionName: 'totalSupply' }), BigInt(0)),
-            safeRead(this.publicClient.readContract({ address: contractAddress, abi: maxSupplyAbi, functionName: 'maxSupply' }), BigInt(0)),
-            getPrice(),
-            safeRead(this.publicClient.readContract({ address: contractAddress, abi: pausedAbi, functionName: 'paused' }), false),
-            safeRead(this.publicClient.readContract({ address: contractAddress, abi: isActiveAbi, functionName: 'isActive' }), true),
-            safeRead(this.publicClient.readContract({ address: contractAddress, abi: saleActiveAbi, functionName: 'saleActive' }), true),
-            safeRead(this.publicClient.readContract({ address: contractAddress, abi: maxPerWalletAbi, functionName: 'maxPerWallet' }), BigInt(0)),
-            safeRead(this.publicClient.readContract({ address: contractAddress, abi: walletLimitAbi, functionName: 'walletLimit' }), BigInt(0)),
+            getPrices(),
+            readSaleState(this.publicClient, contractAddress),
         ]);
 
-        // Combined status
-        const isSalesActive = !paused && isActive && saleActive;
-        const effectiveMaxWallet = maxPerWallet > 0n ? maxPerWallet : walletLimit;
+        // First getter in order of preference; discovery below covers none/conflicting
+        const finalPrice = Object.values(priceGetters)[0] ?? BigInt(0);
+
+        // Simulate the candidates from the wallet with the expected value (or a funded overpayment
+        // when that reverts, e.g. no getter); adopt the first that goes through
+        let mintProbes: MintProbe[] | undefined;
+        if (!mintFuncOverride && wallet) {
+            const callable = selectorReport?.candidates.filter(c => !c.gated).map(c => c.signature) || [];
+            mintProbes = await this.probeMintFunctions(contractAddress, wallet, finalPrice, callable.length > 0 ? callable : PROBE_SIGNATURES);
+
+            const working = mintProbes.find(probe => probe.ok);
+            if (working && working.signature !== mintFunction) {
+                console.log(`🧪 Mint function from simulation: ${working.signature}`);
+                mintFunction = working.signature;
+            }
+        }
+
+        // No getter, or getters that disagree: find the price the mint actually accepts
+        let discovery: PriceDiscovery = {};
+        if (wallet && new Set(Object.values(priceGetters).map(String)).size !== 1) {
+            discovery = await this.discoverPrice(contractAddress, wallet, mintFunction, 1);
+            console.log(`🧪 Simulated price: ${discovery.price ?? `not found (${discovery.failure})`}`);
+        }
+
+        if (!abi.some(item => item.includes(`function ${mintFunction.split('(')[0]}(`))) {
+            abi.push(`function ${mintFunction} payable`);
+        }
 
         return {
             address,
             abi,
             mintFunction,
             mintPrice: finalPrice,
-            maxSupply: Number(maxSupply),
-            currentSupply: Number(totalSupply),
-            isActive: isSalesActive,
-            requiresAllowlist: false,
+            maxSupply: Number(saleState.maxSupply ?? BigInt(0)),
+            currentSupply: Number(saleState.totalSupply ?? BigInt(0)),
+            isActive: saleState.isActive,
+            requiresAllowlist: saleState.requiresAllowlist,
             name: name,
             chainId: this.chainId,
-            maxPerWallet: effectiveMaxWallet
+            maxPerWallet: saleState.maxPerWallet ?? BigInt(0),
+            maxPerTx: saleState.maxPerTx,
+            phase: saleState.phaseLabel,
+            salePhase: saleState.phase,
+            saleStart: saleState.startTime,
+            saleEnd: saleState.endTime,
+            merkleRoot: saleState.merkleRoot,
+            saleSources: saleState.sources,
+            selectorReport,
+            mintProbes,
+            priceGetters,
+            discoveredPrice: discovery.price,
+            discoveryFailure: discovery.failure,
         };
     }
-}
 
+    /**
+     * Binary-search the minimum msg.value the mint simulation accepts for a quantity, to the gwei.
+     * Fails when it reverts at every value (closed sale, allowlist, or an exact == payment the
+     * search can't land on). Without state overrides it searches within the wallet's balance.
+     */
+    async discoverPrice(address: `0x${string}`, wallet: string, signature: string, quantity: number): Promise<PriceDiscovery> {
+        const funded = await this.supportsStateOverride(wallet);
+
+        const simulate = async (value: bigint): Promise<boolean> => {
+            const call = buildSignatureCall(address, signature, quantity, wallet, value);
+            try {
+                await this.publicClient.call({
+                    account: wallet,
+                    to: address,
+                    data: encodeFunctionData({ abi: call.abi, functionName: call.functionName, args: call.args }),
+                    value,
+                    // Fund the wallet so high probes aren't rejected for balance
+                    ...(funded ? { stateOverride: [{ address: wallet, balance: SIMULATION_BALANCE }] } : {}),
+                });
+                return true;
+            } catch {
+                return false;
+            }
+        };
+
+        if (await simulate(BigInt(0))) return { price: BigInt(0) };
+
+        // Grow an upper bound that passes, then halve the gap down to one step
+        let low = BigInt(0);
+        let high = parseEther('0.001') * BigInt(quantity);
+        while (!(await simulate(high))) {
+            low = high;
+            high *= BigInt(4);
+            if (high > MAX_DISCOVERED_PRICE * BigInt(quantity)) return { failure: funded ? 'reverts' : 'no-override' };
+        }
+
+        while (high - low > PRICE_STEP) {
+            const mid = (low + high) / BigInt(2) / PRICE_STEP * PRICE_STEP;
+            if (mid <= low) break;
+            if (await simulate(mid)) high = mid; else low = mid;
+        }
+
+        return { price: high };
+    }
+
+    /**
+     * Whether the RPC accepts a state override on eth_call: a plain call to the wallet itself
+     * can only fail when the override is rejected
+     */
+    private supportsStateOverride(wallet: string): Promise<boolean> {
+        if (!this.overrideSupport) {
+            const check: Promise<boolean> = this.publicClient.call({
+                account: wallet,
+                to: wallet,
+                stateOverride: [{ address: wallet, balance: SIMULATION_BALANCE }],
+            }).then(() => true, () => false);
+            this.overrideSupport = check;
+        }
+        return this.overrideSupport;
+    }
+
+    /**
+     * eth_call each signature for one token from the wallet, stopping at the first success.
+     * A candidate that reverts at the expected price is retried from a funded wallet with the
+     * discovery ceiling as value, so a missing or wrong price getter doesn't rule it out.
+     */
+    async probeMintFunctions(address: `0x${string}`, wallet: string, price: bigint, signatures: string[]): Promise<MintProbe[]> {
+        const probes: MintProbe[] = [];
+        const funded = await this.supportsStateOverride(wallet);
+
+        const simulate = (signature: string, value: bigint, fund: boolean) => {
+            const call = buildSignatureCall(address, signature, 1, wallet, value);
+            return this.publicClient.call({
+                account: wallet,
+                to: address,
+                data: encodeFunctionData({ abi: call.abi, functionName: call.functionName, args: call.args }),
+                value,
+                ...(fund ? { stateOverride: [{ address: wallet, balance: SIMULATION_BALANCE }] } : {}),
+            });
+        };
+
+        for (const signature of signatures) {
+            try {
+                await simulate(signature, price, false);
+                probes.push({ signature, ok: true });
+                break;
+            } catch (e) {
+                const reason = decodeRevertReason(e, getStoredAbi(this.chainId, address)?.abi);
+                const overpaid = funded && await simulate(signature, MAX_DISCOVERED_PRICE, true).then(() => true, () => false);
+                probes.push(overpaid ? { signature, ok: true } : { signature, ok: false, reason });
+                if (overpaid) break;
+            }
+        }
+
+        return probes;
+    }
+}
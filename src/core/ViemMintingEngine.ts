@@ -2,13 +2,18 @@ import {
     createPublicClient,
     createWalletClient,
     encodeFunctionData,
-    parseAbi,
+    decodeFunctionResult,
+    type AbiFunction,
     type Hash,
     custom
 } from 'viem';
 import type { ContractInfo } from './ViemContractAnalyzer';
 import { getChainById } from '../config/chains';
 import { getProviderTransport } from '../config/transport';
+import { ERC20_ABI } from '../config/abis';
+import { getStoredAbi } from '../config/abiStorage';
+import { decodeRevertReason } from '../utils/revert';
+import { buildSignatureCall, type MintCall } from './platforms/PlatformManager';
 
 export interface MintTransaction {
     to: `0x${string}`;
@@ -105,39 +110,43 @@ export class ViemMintingEngine {
 
         console.log(`Preparing Tx: Func=${contract.mintFunction}, Qty=${quantity}`);
 
-        // Build the function signature and encode data
-        // Use a common mint ABI pattern since the function takes uint256
-        const mintAbi = parseAbi([
-            'function mint(uint256 amount) payable',
-            'function publicMint(uint256 amount) payable',
-            'function purchase(uint256 amount) payable'
-        ] as const);
+        // Calculate value
+        const pricePerToken = priceOverride !== undefined ? priceOverride : contract.mintPrice;
+        const value = pricePerToken * BigInt(quantity);
 
-        const functionName = contract.mintFunction.split('(')[0] as 'mint' | 'publicMint' | 'purchase';
+        // Fill the mint signature: numeric params get the quantity, address params our wallet
+        const call = buildSignatureCall(contract.address, contract.mintFunction, quantity, this.account, value);
 
-        let data: `0x${string}`;
-        try {
-            data = encodeFunctionData({
-                abi: mintAbi,
-                functionName: functionName,
-                args: [BigInt(quantity)]
-            });
-        } catch {
-            // Fallback: manually encode for mint(uint256) type functions
-            // mint(uint256) selector is 0xa0712d68
-            const quantityHex = BigInt(quantity).toString(16).padStart(64, '0');
-            data = `0xa0712d68${quantityHex}` as `0x${string}`;
+        return await this.prepareCall(call, gasSettings, skipSimulation, contract);
+    }
+
+    /**
+     * Prepare a fully-resolved mint call (as built by a platform module)
+     * @param contract Optional loaded contract, used for simulation failure hints
+     */
+    async prepareCall(
+        call: MintCall,
+        gasSettings: GasSettings,
+        skipSimulation: boolean = false,
+        contract?: ContractInfo
+    ): Promise<MintTransaction> {
+        if (!this.account) {
+            throw new Error("No wallet connected. Call initBrowserWallet or initBurnerWallet first.");
         }
 
+        const data = encodeFunctionData({
+            abi: call.abi,
+            functionName: call.functionName,
+            args: call.args,
+        });
+
         console.log(`Generated Calldata: ${data}`);
 
-        // Calculate value
-        const pricePerToken = priceOverride !== undefined ? priceOverride : contract.mintPrice;
-        const value = pricePerToken * BigInt(quantity);
+        const value = call.value;
 
         const txRequest = {
             account: this.account,
-            to: contract.address as `0x${string}`,
+            to: call.to,
             data,
             value,
         };
@@ -154,63 +163,18 @@ export class ViemMintingEngine {
             try {
                 await this.publicClient.call(txRequest);
                 console.log("✅ Simulation Successful");
-            } catch (e: any) {
+            } catch (e) {
                 console.error("❌ Simulation Failed:", e);
                 console.error("Full error object:", JSON.stringify(e, null, 2));
 
-                // Common NFT custom error selectors
-                const ERROR_SELECTORS: Record<string, string> = {
-                    '0xc288bf8f': 'MintNotActive() - The mint is not currently active',
-                    '0x3c55b53b': 'SaleNotStarted() - Sale has not started yet',
-                    '0x6f7eac26': 'MaxSupplyReached() - No more tokens available',
-                    '0x8e4a23d6': 'ExceedsWalletLimit() - You have reached the max per wallet',
-                    '0xb1baf4f3': 'InsufficientPayment() - Not enough ETH sent',
-                    '0x21d5efb2': 'InvalidMintAmount() - Invalid quantity',
-                    '0x2c5211c6': 'InvalidProof() - Allowlist proof invalid',
-                    '0xcd786059': 'InvalidPrice() - Incorrect price sent',
-                    '0x646cf558': 'Paused() - Contract is paused',
-                    '0xa1d1e8d6': 'NotWhitelisted() - Not on allowlist',
-                };
-
-                let reason = "Execution reverted";
-                let errorSelector = '';
-
-                // Try to extract error selector from RPC response
-                try {
-                    const rpcError = e.cause?.cause;
-                    if (rpcError?.data && typeof rpcError.data === 'string') {
-                        errorSelector = rpcError.data.slice(0, 10);
-                        console.log("🔍 Error Selector:", errorSelector);
-
-                        if (ERROR_SELECTORS[errorSelector]) {
-                            reason = ERROR_SELECTORS[errorSelector];
-                        } else {
-                            reason = `Custom Error: ${errorSelector} (Check contract source for meaning)`;
-                        }
-                    }
-                } catch {
-                    // Selector extraction failed
-                }
-
-                // Fallback to other error sources
-                if (reason === "Execution reverted") {
-                    if (e.cause?.reason) {
-                        reason = e.cause.reason;
-                    } else if (e.cause?.shortMessage) {
-                        reason = e.cause.shortMessage;
-                    } else if (e.shortMessage) {
-                        reason = e.shortMessage;
-                    } else if (e.details) {
-                        reason = e.details;
-                    }
-                }
+                const reason = decodeRevertReason(e, getStoredAbi(this.publicClient.chain?.id ?? 1, call.to)?.abi);
 
                 // Add helpful context
                 const hints: string[] = [];
-                if (contract.mintPrice === BigInt(0)) {
+                if (contract && contract.mintPrice === BigInt(0)) {
                     hints.push("Price is 0 ETH - verify this is correct or use --price");
                 }
-                if (!contract.isActive) {
+                if (contract && !contract.isActive) {
                     hints.push("Contract shows mint may not be active");
                 }
 
@@ -237,7 +201,7 @@ export class ViemMintingEngine {
         }
 
         this.preparedTx = {
-            to: contract.address as `0x${string}`,
+            to: call.to,
             data,
             value,
             gas: gasLimit,
@@ -279,6 +243,83 @@ export class ViemMintingEngine {
         }
     }
 
+    /**
+     * Read our balance of an ERC20 payment token and what the spender may pull
+     */
+    async getTokenState(token: `0x${string}`, spender: `0x${string}`): Promise<{ balance: bigint; allowance: bigint }> {
+        if (!this.account) throw new Error("No account set");
+
+        const [balance, allowance] = await Promise.all([
+            this.publicClient.readContract({ address: token, abi: ERC20_ABI, functionName: 'balanceOf', args: [this.account] }),
+            this.publicClient.readContract({ address: token, abi: ERC20_ABI, functionName: 'allowance', args: [this.account, spender] }),
+        ]);
+
+        return { balance, allowance };
+    }
+
+    /**
+     * Send approve(spender, amount) and wait for it to land, so the mint can pull the tokens
+     */
+    async approveToken(token: `0x${string}`, spender: `0x${string}`, amount: bigint): Promise<Hash> {
+        if (!this.walletClient) throw new Error("No wallet connected");
+        if (!this.account) throw new Error("No account set");
+
+        const hash = await this.walletClient.sendTransaction({
+            account: this.account,
+            to: token,
+            data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'approve', args: [spender, amount] }),
+            chain: this.publicClient.chain
+        });
+
+        const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+            throw new Error(`Approve reverted: ${hash}`);
+        }
+
+        return hash;
+    }
+
+    /**
+     * eth_call any function - from our wallet when `fromWallet` is set - and decode what it returns.
+     * Functions without declared outputs give back the raw return data.
+     */
+    async callFunction(
+        to: `0x${string}`,
+        fn: AbiFunction,
+        args: readonly unknown[],
+        value: bigint = BigInt(0),
+        fromWallet: boolean = false
+    ): Promise<unknown> {
+        if (fromWallet && !this.account) throw new Error("No wallet connected");
+
+        const abi = [fn];
+        let data: `0x${string}` | undefined;
+        try {
+            ({ data } = await this.publicClient.call({
+                account: fromWallet ? this.account : undefined,
+                to,
+                data: encodeFunctionData({ abi, functionName: fn.name, args }),
+                value,
+            }));
+        } catch (e) {
+            throw new Error(`Reverted: ${decodeRevertReason(e, getStoredAbi(this.publicClient.chain?.id ?? 1, to)?.abi)}`);
+        }
+
+        if (fn.outputs.length === 0) return data ?? '0x';
+        return decodeFunctionResult({ abi, functionName: fn.name, data: data ?? '0x' });
+    }
+
+    /**
+     * Latest block, plus the timestamp expected for the next one - where a tx sent now lands
+     */
+    async getBlockTiming(): Promise<{ number: bigint; timestamp: bigint; nextTimestamp: bigint }> {
+        const latest = await this.publicClient.getBlock();
+        const parent = await this.publicClient.getBlock({ blockNumber: latest.number - BigInt(1) });
+        const blockTime = latest.timestamp > parent.timestamp ? latest.timestamp - parent.timestamp : BigInt(1);
+
+        return { number: latest.number, timestamp: latest.timestamp, nextTimestamp: latest.timestamp + blockTime };
+    }
+
     async waitForReceipt(hash: Hash) {
         return await this.publicClient.waitForTransactionReceipt({ hash });
     }
@@ -0,0 +1,306 @@
+import { createPublicClient, isAddress, toFunctionSelector, toFunctionSignature, zeroAddress, type AbiFunction, type PublicClient } from 'viem';
+import { getChainById } from '../../config/chains';
+import { getProviderTransport } from '../../config/transport';
+import type { DefinitionGetter, PlatformDefinition } from '../../config/platformDefinitions';
+import { parseAbiArgs, resolveAbiFunction, type ArgContext } from '../../utils/abiArgs';
+import type { ProxyInfo } from '../ProxyResolver';
+import { detectionFrom, detectionSignal, readTokenStandard, type PlatformModule, type PlatformContractInfo, type PlatformDetection, type AnalyzeOptions, type MintCall, type PriceQuote, type QuoteOptions } from './PlatformManager';
+
+// Read on every load unless the definition maps them itself
+const DEFAULT_GETTERS: Record<string, DefinitionGetter> = {
+    name: 'function name() view returns (string)',
+    totalSupply: 'function totalSupply() view returns (uint256)',
+};
+
+const DEFAULT_FEES = { price: '{price} * {qty}', protocol: '0', creator: '0' };
+
+/**
+ * Evaluate an integer formula over {names}: + - * / and parentheses, division rounding down
+ */
+function evaluateFormula(formula: string, values: Record<string, bigint>): bigint {
+    const tokens = formula.match(/\{\w+\}|\d+|[-+*/()]/g) || [];
+    if (tokens.join('') !== formula.replace(/\s+/g, '')) {
+        throw new Error(`Invalid formula: ${formula}`);
+    }
+
+    let i = 0;
+    const primary = (): bigint => {
+        const token = tokens[i++];
+        if (token === '(') {
+            const value = sum();
+            if (tokens[i++] !== ')') throw new Error(`Missing ) in formula: ${formula}`);
+            return value;
+        }
+        if (token === '-') return -primary();
+        if (token?.startsWith('{')) {
+            const name = token.slice(1, -1);
+            if (!(name in values)) throw new Error(`Unknown value {${name}} in formula: ${formula}`);
+            return values[name];
+        }
+        if (token && /^\d+$/.test(token)) return BigInt(token);
+        throw new Error(`Invalid formula: ${formula}`);
+    };
+    const product = (): bigint => {
+        let value = primary();
+        while (tokens[i] === '*' || tokens[i] === '/') {
+            const op = tokens[i++];
+            const right = primary();
+            if (op === '/' && right === BigInt(0)) throw new Error(`Division by zero in formula: ${formula}`);
+            value = op === '*' ? value * right : value / right;
+        }
+        return value;
+    };
+    const sum = (): bigint => {
+        let value = product();
+        while (tokens[i] === '+' || tokens[i] === '-') {
+            const op = tokens[i++];
+            const right = product();
+            value = op === '+' ? value + right : value - right;
+        }
+        return value;
+    };
+
+    const result = sum();
+    if (i !== tokens.length) throw new Error(`Invalid formula: ${formula}`);
+    return result;
+}
+
+function getterFunction(getter: DefinitionGetter): { fn: AbiFunction; args: string[] } {
+    const { call, args = [] } = typeof getter === 'string' ? { call: getter } : getter;
+    return { fn: resolveAbiFunction(call), args };
+}
+
+// Numeric view of a getter result for formulas; undefined for strings/addresses
+function toBigInt(value: unknown): bigint | undefined {
+    if (typeof value === 'bigint') return value;
+    if (typeof value === 'boolean') return value ? BigInt(1) : BigInt(0);
+    if (typeof value === 'number') return BigInt(value);
+    return undefined;
+}
+
+/**
+ * Check a JSON definition and fill in defaults. Throws on the first problem found.
+ */
+export function parsePlatformDefinition(input: unknown): PlatformDefinition {
+    const definition = (typeof input === 'string' ? JSON.parse(input) : input) as PlatformDefinition;
+    if (!definition || typeof definition !== 'object') throw new Error('Definition must be a JSON object');
+
+    if (typeof definition.name !== 'string' || !/^[A-Za-z0-9][\w-]*$/.test(definition.name)) {
+        throw new Error('name: letters, digits, - and _ only (it becomes the --platform id)');
+    }
+    if (definition.priority !== undefined && typeof definition.priority !== 'number') {
+        throw new Error('priority: must be a number');
+    }
+
+    if (!Array.isArray(definition.detect) || definition.detect.length === 0) {
+        throw new Error('detect: at least one probe is required');
+    }
+    definition.detect.forEach((probe, i) => {
+        if (typeof probe.weight !== 'number' || probe.weight <= 0 || probe.weight > 1) {
+            throw new Error(`detect[${i}].weight: must be above 0 and at most 1`);
+        }
+        if (!!probe.call === !!probe.selector) throw new Error(`detect[${i}]: give either call or selector`);
+        if (probe.call) getterFunction({ call: probe.call, args: probe.args });
+        if (probe.selector && !/^0x[0-9a-fA-F]{8}$/.test(probe.selector)) toFunctionSelector(probe.selector);
+    });
+
+    const getters = { ...DEFAULT_GETTERS, ...(definition.getters || {}) };
+    for (const [name, getter] of Object.entries(getters)) {
+        const { fn } = getterFunction(getter);
+        if (fn.outputs.length !== 1) throw new Error(`getters.${name}: needs exactly one return value, e.g. "returns (uint256)"`);
+    }
+
+    if (!definition.mint || typeof definition.mint.function !== 'string') throw new Error('mint.function: required');
+    const mintFn = resolveAbiFunction(definition.mint.function);
+    const mintArgs = definition.mint.args || [];
+    if (mintArgs.length !== mintFn.inputs.length) {
+        throw new Error(`mint.args: ${mintFn.name} takes ${mintFn.inputs.length} argument(s), got ${mintArgs.length}`);
+    }
+    if (definition.mint.to !== undefined && !isAddress(definition.mint.to)) throw new Error('mint.to: invalid address');
+
+    // Every name a formula uses must be a getter (or qty)
+    const fees = { ...DEFAULT_FEES, ...(definition.fees || {}) };
+    const names = Object.fromEntries([...Object.keys(getters), 'qty'].map(name => [name, BigInt(1)]));
+    for (const [key, formula] of Object.entries(fees)) {
+        try {
+            evaluateFormula(formula, names);
+        } catch (e) {
+            throw new Error(`fees.${key}: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    return { ...definition, getters, mint: { ...definition.mint, args: mintArgs }, fees };
+}
+
+/**
+ * Declarative Platform Module
+ * Runs a launchpad described by a PlatformDefinition: detection probes, getters for
+ * price/supply/limits/state, a mint call template and fee formulas
+ */
+export class DeclarativeModule implements PlatformModule {
+    name: string;
+    private definition: PlatformDefinition;
+
+    constructor(definition: PlatformDefinition) {
+        this.name = definition.name;
+        this.definition = definition;
+    }
+
+    private createClient(chainId: number): PublicClient {
+        return createPublicClient({
+            chain: getChainById(chainId),
+            transport: getProviderTransport(chainId)
+        });
+    }
+
+    /**
+     * Score the definition's probes: getters that answer (with the expected value) and selectors in the bytecode
+     */
+    async detect(address: string, chainId: number, proxy?: ProxyInfo): Promise<PlatformDetection> {
+        const publicClient = this.createClient(chainId);
+        const contractAddress = address as `0x${string}`;
+
+        const needsCode = this.definition.detect.some(probe => probe.selector);
+        const bytecode = needsCode
+            ? (await publicClient.getCode({ address: proxy?.implementation ?? contractAddress }).catch(() => undefined))?.toLowerCase() || ''
+            : '';
+
+        const signals = await Promise.all(this.definition.detect.map(async probe => {
+            if (probe.selector) {
+                const selector = /^0x[0-9a-fA-F]{8}$/.test(probe.selector) ? probe.selector : toFunctionSelector(probe.selector);
+                return detectionSignal(`${probe.selector} in bytecode`, bytecode.includes(selector.slice(2).toLowerCase()), probe.weight);
+            }
+
+            const { fn, args } = getterFunction({ call: probe.call!, args: probe.args });
+            const result = await publicClient.readContract({
+                address: contractAddress,
+                abi: [fn],
+                functionName: fn.name,
+                args: parseAbiArgs(fn, args, { qty: 1, me: zeroAddress }),
+            }).then(value => ({ value })).catch(() => undefined);
+
+            const found = !!result && (probe.equals === undefined || String(result.value).toLowerCase() === probe.equals.toLowerCase());
+            const check = probe.equals === undefined ? `${toFunctionSignature(fn)} answers` : `${toFunctionSignature(fn)} is ${probe.equals}`;
+            return detectionSignal(check, found, probe.weight);
+        }));
+
+        return detectionFrom(signals);
+    }
+
+    /**
+     * Read every getter. Failed reads count as 0 and are listed in `failed`, so pricing can refuse them.
+     */
+    private async readValues(address: string, chainId: number, context: ArgContext, blockNumber?: bigint) {
+        const publicClient = this.createClient(chainId);
+
+        const entries = await Promise.all(Object.entries(this.definition.getters).map(async ([name, getter]) => {
+            const { fn, args } = getterFunction(getter);
+            const value = await publicClient.readContract({
+                address: address as `0x${string}`,
+                abi: [fn],
+                functionName: fn.name,
+                args: parseAbiArgs(fn, args, context),
+                blockNumber,
+            }).catch(() => undefined);
+            return [name, value] as const;
+        }));
+
+        const values = Object.fromEntries(entries) as Record<string, unknown>;
+        const numbers = Object.fromEntries(entries.map(([name, value]) => [name, toBigInt(value) ?? BigInt(0)]));
+        const failed = entries.filter(([, value]) => value === undefined).map(([name]) => name);
+        return { values, numbers, failed };
+    }
+
+    /**
+     * Apply the fee formulas. With `failed` given, a formula using a getter that couldn't be read
+     * throws instead of pricing it at 0 (a typo or reverting getter would otherwise mint for free).
+     */
+    private price(numbers: Record<string, bigint>, quantity: number, failed: string[] = []) {
+        const fees = { ...DEFAULT_FEES, ...this.definition.fees };
+        for (const [key, formula] of Object.entries(fees)) {
+            const missing = failed.find(name => formula.includes(`{${name}}`));
+            if (missing) {
+                throw new Error(`${this.name}: getter "${missing}" (used in fees.${key}) could not be read`);
+            }
+        }
+
+        const values = { ...numbers, qty: BigInt(quantity) };
+        return {
+            basePrice: evaluateFormula(fees.price, values),
+            protocolFee: evaluateFormula(fees.protocol, values),
+            creatorFee: evaluateFormula(fees.creator, values),
+        };
+    }
+
+    async analyze(address: string, chainId: number, options: AnalyzeOptions = {}): Promise<PlatformContractInfo> {
+        const publicClient = this.createClient(chainId);
+        const { values, numbers, failed } = await this.readValues(address, chainId, { qty: 1, me: options.wallet || zeroAddress });
+        const tokenStandard = await readTokenStandard(publicClient, address as `0x${string}`);
+
+        // Active flag when mapped, else the start/end window, else assume open
+        const now = BigInt(Math.floor(Date.now() / 1000));
+        const isActive = values.active !== undefined
+            ? numbers.active !== BigInt(0)
+            : (values.startTime === undefined || now >= numbers.startTime)
+                && (!numbers.endTime || now < numbers.endTime);
+
+        // Shown as 0 here; quoting and minting refuse the failed getters
+        const single = this.price(numbers, 1);
+        console.log(`📋 ${this.name} (declarative): price ${single.basePrice} wei, fees ${single.protocolFee}/${single.creatorFee} wei`);
+        if (failed.length > 0) console.warn(`⚠️ ${this.name}: could not read ${failed.join(', ')}`);
+
+        return {
+            address,
+            name: typeof values.name === 'string' ? values.name : 'Unknown',
+            chainId,
+            platform: this.name.toLowerCase(),
+            tokenStandard,
+            mintFunction: toFunctionSignature(resolveAbiFunction(this.definition.mint.function)),
+            mintPrice: single.basePrice,
+            protocolFee: single.protocolFee,
+            creatorFee: single.creatorFee,
+            getTotalValue: (quantity: number) => {
+                const price = this.price(numbers, quantity);
+                return price.basePrice + price.protocolFee + price.creatorFee;
+            },
+            isActive,
+            totalSupply: values.totalSupply !== undefined ? numbers.totalSupply : undefined,
+            maxSupply: values.maxSupply !== undefined ? numbers.maxSupply : undefined,
+            maxPerWallet: values.maxPerWallet !== undefined ? numbers.maxPerWallet : undefined,
+            routerContract: this.definition.mint.to,
+        };
+    }
+
+    /**
+     * Fill the mint template: {qty}/{me} in the args, value from the fee formulas
+     */
+    async buildMintCall(info: PlatformContractInfo, quantity: number, wallet: string): Promise<MintCall> {
+        const quote = await this.quote(info, quantity, { wallet });
+        const fn = resolveAbiFunction(this.definition.mint.function);
+
+        return {
+            to: (this.definition.mint.to || info.address) as `0x${string}`,
+            abi: [fn],
+            functionName: fn.name,
+            args: parseAbiArgs(fn, this.definition.mint.args, { qty: quantity, me: wallet }),
+            value: fn.stateMutability === 'payable' ? quote.total : BigInt(0),
+        };
+    }
+
+    /**
+     * Re-read the getters (at the given block) and apply the fee formulas to the quantity
+     */
+    async quote(info: PlatformContractInfo, quantity: number, options: QuoteOptions = {}): Promise<PriceQuote> {
+        const { numbers, failed } = await this.readValues(info.address, info.chainId, { qty: quantity, me: options.wallet || zeroAddress }, options.blockNumber);
+        const { basePrice, protocolFee, creatorFee } = this.price(numbers, quantity, failed);
+
+        return {
+            quantity,
+            basePrice,
+            protocolFee,
+            creatorFee,
+            affiliateDiscount: BigInt(0),
+            total: basePrice + protocolFee + creatorFee,
+        };
+    }
+}
@@ -1,6 +1,8 @@
-import { createPublicClient, http, parseAbi, type Chain } from 'viem';
+import { createPublicClient, parseAbi, toFunctionSelector, zeroAddress, type Chain, type PublicClient } from 'viem';
 import { mainnet, sepolia, goerli, polygon, arbitrum, optimism, base } from 'viem/chains';
-import type { PlatformModule, PlatformContractInfo } from './PlatformManager';
+import { getProviderTransport } from '../../config/transport';
+import { buildSignatureCall, auctionPriceAt, detectionFrom, detectionSignal, type PlatformDetection, type DutchAuctionCurve, type MintRecord, type RefundStatus, type PlatformModule, type PlatformContractInfo, type AnalyzeOptions, type MintCall, type PriceQuote, type QuoteOptions } from './PlatformManager';
+import { findMintCandidates } from '../SelectorExtractor';
 
 // Chain lookup
 const CHAINS: Record<number, Chain> = {
@@ -23,6 +25,16 @@ const DUTCH_AUCTION_ABI = parseAbi([
     'function dutchAuctionConfig() view returns (uint256 startPrice, uint256 endPrice, uint256 startTime, uint256 endTime)',
     'function currentPrice() view returns (uint256)',
 
+    // Stepped auctions: seconds between price drops
+    'function dropInterval() view returns (uint256)',
+    'function DA_DROP_INTERVAL() view returns (uint256)',
+
+    // Rebates: minters reclaim what they paid above the resting price
+    'function getRefundAmount(address minter) view returns (uint256)',
+    'function finalPrice() view returns (uint256)',
+    'function claimRefund()',
+    'function refund()',
+
     // Mint functions
     'function mintDutch(uint256 numberOfTokens) payable',
     'function auctionMint(uint256 quantity) payable',
@@ -46,50 +58,39 @@ export class DutchAuctionModule implements PlatformModule {
     name = 'DutchAuction';
 
     /**
-     * Detect if contract uses Dutch Auction minting
+     * Score whether the contract uses Dutch Auction minting
      */
-    async detect(address: string, chainId: number): Promise<boolean> {
+    async detect(address: string, chainId: number): Promise<PlatformDetection> {
         const chain = CHAINS[chainId] || mainnet;
         const publicClient = createPublicClient({
             chain,
-            transport: http()
+            transport: getProviderTransport(chainId)
         });
 
         const contractAddress = address as `0x${string}`;
 
-        try {
-            // Check for getAuctionPrice() which is the hallmark of Dutch auctions
-            await publicClient.readContract({
-                address: contractAddress,
-                abi: DUTCH_AUCTION_ABI,
-                functionName: 'getAuctionPrice',
-            });
-            console.log(`✅ Detected Dutch Auction contract via getAuctionPrice()`);
-            return true;
-        } catch {
-            // Try alternative: currentPrice()
-            try {
-                await publicClient.readContract({
-                    address: contractAddress,
-                    abi: DUTCH_AUCTION_ABI,
-                    functionName: 'currentPrice',
-                });
-                console.log(`✅ Detected Dutch Auction contract via currentPrice()`);
-                return true;
-            } catch {
-                return false;
-            }
-        }
+        // getAuctionPrice() is the hallmark of Dutch auctions; currentPrice() is used more widely
+        const [auctionPrice, currentPrice] = await Promise.all([
+            publicClient.readContract({ address: contractAddress, abi: DUTCH_AUCTION_ABI, functionName: 'getAuctionPrice' })
+                .then(() => true).catch(() => false),
+            publicClient.readContract({ address: contractAddress, abi: DUTCH_AUCTION_ABI, functionName: 'currentPrice' })
+                .then(() => true).catch(() => false),
+        ]);
+
+        return detectionFrom([
+            detectionSignal('getAuctionPrice() answers', auctionPrice, 0.8),
+            detectionSignal('currentPrice() answers', currentPrice, 0.5),
+        ]);
     }
 
     /**
      * Analyze Dutch Auction contract
      */
-    async analyze(address: string, chainId: number): Promise<PlatformContractInfo> {
+    async analyze(address: string, chainId: number, options: AnalyzeOptions = {}): Promise<PlatformContractInfo> {
         const chain = CHAINS[chainId] || mainnet;
         const publicClient = createPublicClient({
             chain,
-            transport: http()
+            transport: getProviderTransport(chainId)
         });
 
         const contractAddress = address as `0x${string}`;
@@ -146,6 +147,11 @@ export class DutchAuctionModule implements PlatformModule {
             }
         }
 
+        // Reconstruct the price curve from the config, stepped when a drop interval is exposed
+        const auction = await readAuctionCurve(publicClient, contractAddress);
+
+        const refund = await readRefundSupport(publicClient, contractAddress, options.proxy?.implementation);
+
         // Check if auction is active
         let isActive = false;
         try {
@@ -155,14 +161,15 @@ export class DutchAuctionModule implements PlatformModule {
                 functionName: 'auctionActive',
             }) as boolean;
         } catch {
-            // If we got a price, assume it's active
-            isActive = mintPrice > BigInt(0);
+            // Without a flag, use the configured window, or assume active if we got a price
+            const now = Math.floor(Date.now() / 1000);
+            isActive = auction ? now >= auction.startTime : mintPrice > BigInt(0);
         }
 
-        // Determine mint function - try mintDutch first, then auctionMint
-        let mintFunction = 'mintDutch(uint256)';
-        // We'll try to detect which one exists by checking bytecode selector later
-        // For now, default to mintDutch which is more common
+        // Determine mint function from the bytecode - mintDutch unless only auctionMint is there
+        const selectorReport = await findMintCandidates(publicClient, contractAddress).catch(() => undefined);
+        const auctionMint = selectorReport?.candidates.find(c => c.signature === 'mintDutch(uint256)' || c.signature === 'auctionMint(uint256)');
+        const mintFunction = auctionMint?.signature || 'mintDutch(uint256)';
 
         // Get max per transaction if available
         let maxPerWallet: bigint | undefined;
@@ -186,7 +193,7 @@ export class DutchAuctionModule implements PlatformModule {
             address,
             name: name as string,
             chainId,
-            platform: 'dutchauction' as any,
+            platform: 'dutchauction',
             tokenStandard: 'ERC721',
             mintFunction,
             mintPrice,
@@ -197,6 +204,188 @@ export class DutchAuctionModule implements PlatformModule {
             totalSupply: totalSupply as bigint,
             maxSupply,
             maxPerWallet,
+            auction,
+            refund,
+            selectorReport,
+        };
+    }
+
+    /**
+     * Build the auction mint call (mintDutch/auctionMint take only a quantity),
+     * priced at the auction price right now rather than at load time
+     */
+    async buildMintCall(info: PlatformContractInfo, quantity: number, wallet: string): Promise<MintCall> {
+        const quote = await this.quote(info, quantity);
+        return buildSignatureCall(info.address, info.mintFunction, quantity, wallet, quote.total);
+    }
+
+    /**
+     * Auction price as of the given block, times the quantity
+     */
+    async quote(info: PlatformContractInfo, quantity: number, options: QuoteOptions = {}): Promise<PriceQuote> {
+        const chain = CHAINS[info.chainId] || mainnet;
+        const publicClient = createPublicClient({
+            chain,
+            transport: getProviderTransport(info.chainId)
+        });
+
+        const contractAddress = info.address as `0x${string}`;
+
+        const price = await publicClient.readContract({
+            address: contractAddress,
+            abi: DUTCH_AUCTION_ABI,
+            functionName: 'getAuctionPrice',
+            blockNumber: options.blockNumber,
+        }).catch(() => publicClient.readContract({
+            address: contractAddress,
+            abi: DUTCH_AUCTION_ABI,
+            functionName: 'currentPrice',
+            blockNumber: options.blockNumber,
+        })).catch(async () => {
+            // No live price getter: evaluate the configured curve at the block's timestamp
+            if (!info.auction) return info.mintPrice;
+            const block = await publicClient.getBlock(options.blockNumber ? { blockNumber: options.blockNumber } : {});
+            return auctionPriceAt(info.auction, Number(block.timestamp));
+        });
+
+        const basePrice = price * BigInt(quantity);
+
+        return {
+            quantity,
+            basePrice,
+            protocolFee: BigInt(0),
+            creatorFee: BigInt(0),
+            affiliateDiscount: BigInt(0),
+            total: basePrice,
+        };
+    }
+
+    /**
+     * Refund owed to a wallet. The contract's own getRefundAmount() wins; otherwise it is what
+     * the wallet paid above the final price the contract recorded. Without either, a drop that
+     * sold out early settles above the curve's resting price, so that price only gives an estimate.
+     */
+    async refundStatus(info: PlatformContractInfo, wallet: string, minted: MintRecord): Promise<RefundStatus> {
+        const chain = CHAINS[info.chainId] || mainnet;
+        const publicClient = createPublicClient({
+            chain,
+            transport: getProviderTransport(info.chainId)
+        });
+
+        const contractAddress = info.address as `0x${string}`;
+
+        const [finalPrice, block, active] = await Promise.all([
+            publicClient.readContract({
+                address: contractAddress,
+                abi: DUTCH_AUCTION_ABI,
+                functionName: 'finalPrice',
+            }).catch(() => BigInt(0)),
+            publicClient.getBlock(),
+            publicClient.readContract({
+                address: contractAddress,
+                abi: DUTCH_AUCTION_ABI,
+                functionName: 'auctionActive',
+            }).catch(() => undefined),
+        ]);
+        const settledPrice = finalPrice > BigInt(0) ? finalPrice : undefined;
+
+        if (info.refund?.hasGetter) {
+            const claimable = await publicClient.readContract({
+                address: contractAddress,
+                abi: DUTCH_AUCTION_ABI,
+                functionName: 'getRefundAmount',
+                args: [wallet as `0x${string}`],
+            });
+            return { settled: settledPrice !== undefined || claimable > BigInt(0), settledPrice, claimable };
+        }
+
+        const owedAt = (price: bigint) => {
+            const owed = minted.paid - price * BigInt(minted.quantity);
+            return owed > BigInt(0) ? owed : BigInt(0);
         };
+        if (settledPrice !== undefined) {
+            return { settled: true, settledPrice, claimable: owedAt(settledPrice) };
+        }
+
+        // Curve bottomed out or sale switched off, but no final price on-chain
+        const curveEnded = info.auction ? Number(block.timestamp) >= info.auction.endTime : false;
+        if (!curveEnded && !(!info.auction && active === false)) {
+            return { settled: false, claimable: BigInt(0) };
+        }
+        const restingPrice = (await this.quote(info, 1, { blockNumber: block.number })).basePrice;
+        return { settled: false, claimable: BigInt(0), estimate: owedAt(restingPrice) };
     }
+
+    /**
+     * claimRefund()/refund() pay out to msg.sender, so the call is the same for every wallet
+     */
+    async buildRefundCall(info: PlatformContractInfo): Promise<MintCall> {
+        if (!info.refund) throw new Error(`${info.name} has no refund function`);
+
+        return {
+            to: info.address as `0x${string}`,
+            abi: DUTCH_AUCTION_ABI,
+            functionName: info.refund.claimFunction,
+            args: [],
+            value: BigInt(0),
+        };
+    }
+}
+
+/**
+ * Read dutchAuctionConfig() and the optional drop interval; undefined when there is no config
+ */
+async function readAuctionCurve(publicClient: PublicClient, address: `0x${string}`): Promise<DutchAuctionCurve | undefined> {
+    try {
+        const [startPrice, endPrice, startTime, endTime] = await publicClient.readContract({
+            address,
+            abi: DUTCH_AUCTION_ABI,
+            functionName: 'dutchAuctionConfig',
+        }) as readonly [bigint, bigint, bigint, bigint];
+
+        const stepInterval = await publicClient.readContract({
+            address,
+            abi: DUTCH_AUCTION_ABI,
+            functionName: 'dropInterval',
+        }).catch(() => publicClient.readContract({
+            address,
+            abi: DUTCH_AUCTION_ABI,
+            functionName: 'DA_DROP_INTERVAL',
+        })).catch(() => BigInt(0)) as bigint;
+
+        return {
+            startPrice,
+            endPrice,
+            startTime: Number(startTime),
+            endTime: Number(endTime),
+            stepInterval: Number(stepInterval),
+        };
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Detect rebate support: a getRefundAmount() getter and/or a claimRefund()/refund() selector in the bytecode
+ * (the implementation's, for proxies)
+ */
+async function readRefundSupport(
+    publicClient: PublicClient,
+    address: `0x${string}`,
+    implementation?: `0x${string}`
+): Promise<PlatformContractInfo['refund']> {
+    const hasGetter = await publicClient.readContract({
+        address,
+        abi: DUTCH_AUCTION_ABI,
+        functionName: 'getRefundAmount',
+        args: [zeroAddress],
+    }).then(() => true).catch(() => false);
+
+    const bytecode = (await publicClient.getCode({ address: implementation ?? address }).catch(() => undefined))?.toLowerCase() || '';
+    const claimFunction = ['claimRefund', 'refund'].find(name => bytecode.includes(toFunctionSelector(`${name}()`).slice(2)));
+
+    if (!claimFunction && !hasGetter) return undefined;
+
+    // A getter without a visible selector means the dispatcher hides it - claimRefund() is the common name
+    return { claimFunction: claimFunction || 'claimRefund', hasGetter };
 }
@@ -1,7 +1,7 @@
-import { createPublicClient, parseAbi, type Chain } from 'viem';
+import { createPublicClient, parseAbi, zeroAddress, type Chain, type PublicClient } from 'viem';
 import { getProviderTransport } from '../../config/transport';
 import { mainnet, sepolia, goerli, polygon, arbitrum, optimism, base } from 'viem/chains';
-import type { PlatformModule, PlatformContractInfo } from './PlatformManager';
+import { buildSignatureCall, linearQuote, readTokenStandard, detectionFrom, detectionSignal, type PlatformDetection, type PlatformModule, type PlatformContractInfo, type MintCall, type MintStage, type AnalyzeOptions, type PriceQuote, type QuoteOptions } from './PlatformManager';
 
 // Chain lookup
 const CHAINS: Record<number, Chain> = {
@@ -35,19 +35,80 @@ const TOKEN_ABI = parseAbi([
     'function purchase(uint256 quantity) payable',
 ] as const);
 
+// ERC721M / ERC1155M launchpad contracts: stage-based minting
+const ME_STAGES_ABI = parseAbi([
+    'function getNumberStages() view returns (uint256)',
+    'function getActiveStageFromTimestamp(uint64 timestamp) view returns (uint256)',
+    'function getCosigner() view returns (address)',
+] as const);
+
+// ERC721M: getStageInfo layouts, with and without the per-stage mint fee
+const ME_721_V2_ABI = parseAbi([
+    'struct MintStageInfo { uint80 price; uint80 mintFee; uint32 walletLimit; bytes32 merkleRoot; uint24 maxStageSupply; uint64 startTimeUnixSeconds; uint64 endTimeUnixSeconds; }',
+    'function getStageInfo(uint256 index) view returns (MintStageInfo, uint32 walletMintedCount, uint256 stageMintedCount)',
+] as const);
+
+const ME_721_V1_ABI = parseAbi([
+    'struct MintStageInfo { uint80 price; uint32 walletLimit; bytes32 merkleRoot; uint24 maxStageSupply; uint64 startTimeUnixSeconds; uint64 endTimeUnixSeconds; }',
+    'function getStageInfo(uint256 index) view returns (MintStageInfo, uint32 walletMintedCount, uint256 stageMintedCount)',
+] as const);
+
+const ME_721_MINT_ABI = parseAbi([
+    'function mint(uint32 qty, bytes32[] proof, uint64 timestamp, bytes signature) payable',
+    'function getMaxMintableSupply() view returns (uint256)',
+    'function totalSupply() view returns (uint256)',
+] as const);
+
+// ERC1155M: every stage field is an array indexed by token ID
+const ME_1155_ABI = parseAbi([
+    'struct MintStageInfo1155 { uint80[] price; uint80[] mintFee; uint32[] walletLimit; bytes32[] merkleRoot; uint24[] maxStageSupply; uint64 startTimeUnixSeconds; uint64 endTimeUnixSeconds; }',
+    'function getStageInfo(uint256 index) view returns (MintStageInfo1155, uint32[] walletMinted, uint256[] stageMinted)',
+    'function mint(uint256 tokenId, uint32 qty, bytes32[] proof, uint64 timestamp, bytes signature) payable',
+    'function getMaxMintableSupply(uint256 tokenId) view returns (uint256)',
+    'function totalSupply(uint256 id) view returns (uint256)',
+] as const);
+
+const ZERO_ROOT = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+/**
+ * One launchpad stage, flattened to the selected token for ERC1155M
+ */
+interface LaunchpadStage {
+    index: number;
+    price: bigint;
+    mintFee: bigint;
+    walletLimit: number;
+    merkleRoot: `0x${string}`;
+    maxStageSupply: number;
+    startTime: number;
+    endTime: number;
+    walletMinted: number;
+    stageMinted: bigint;
+}
+
+/**
+ * Timestamp a cosigner signature was issued for, from the imported mintParams
+ */
+function signedTimestamp(info: PlatformContractInfo): bigint | undefined {
+    const timestamp = info.credentials?.mintParams?.timestamp;
+    return timestamp !== undefined && typeof timestamp !== 'boolean' ? BigInt(timestamp) : undefined;
+}
+
 /**
  * Magic Eden Custom Module
  * 
  * Handles Magic Eden Launchpad contracts that DO NOT use SeaDrop.
- * These are often custom deployments but share some characteristics.
+ * ERC721M/ERC1155M contracts expose their stages on-chain; the contract picks
+ * the stage from the block timestamp (the signed one when a cosigner is set).
+ * Older custom deployments fall back to price getters.
  */
 export class MagicEdenModule implements PlatformModule {
     name = 'MagicEden';
 
     /**
-     * Detect if contract is likely a non-SeaDrop Magic Eden launchpad contract
+     * Score whether the contract is a non-SeaDrop Magic Eden launchpad contract
      */
-    async detect(address: string, chainId: number): Promise<boolean> {
+    async detect(address: string, chainId: number): Promise<PlatformDetection> {
         const chain = CHAINS[chainId] || mainnet;
         const publicClient = createPublicClient({
             chain,
@@ -56,23 +117,23 @@ export class MagicEdenModule implements PlatformModule {
 
         const contractAddress = address as `0x${string}`;
 
-        try {
-            // Check for provenance hash (common in ME drops)
-            await publicClient.readContract({
-                address: contractAddress,
-                abi: ME_DETECTION_ABI,
-                functionName: 'provenanceHash',
-            });
-            return true;
-        } catch {
-            return false;
-        }
+        // getNumberStages() marks ERC721M/ERC1155M; a provenance hash is common in ME drops but not unique to them
+        const [stageCount, provenance] = await Promise.all([
+            this.readNumberStages(publicClient, contractAddress),
+            publicClient.readContract({ address: contractAddress, abi: ME_DETECTION_ABI, functionName: 'provenanceHash' })
+                .then(() => true).catch(() => false),
+        ]);
+
+        return detectionFrom([
+            detectionSignal(stageCount !== null ? `getNumberStages() is ${stageCount}` : 'getNumberStages() answers', stageCount !== null, 0.9),
+            detectionSignal('provenanceHash() answers', provenance, 0.3),
+        ]);
     }
 
     /**
      * Analyze Magic Eden contract
      */
-    async analyze(address: string, chainId: number): Promise<PlatformContractInfo> {
+    async analyze(address: string, chainId: number, options: AnalyzeOptions = {}): Promise<PlatformContractInfo> {
         const chain = CHAINS[chainId] || mainnet;
         const publicClient = createPublicClient({
             chain,
@@ -81,6 +142,11 @@ export class MagicEdenModule implements PlatformModule {
 
         const contractAddress = address as `0x${string}`;
 
+        const numberStages = await this.readNumberStages(publicClient, contractAddress);
+        if (numberStages !== null) {
+            return await this.analyzeStages(publicClient, contractAddress, chainId, numberStages, options);
+        }
+
         const [name, totalSupply, maxSupply] = await Promise.all([
             publicClient.readContract({
                 address: contractAddress,
@@ -150,4 +216,334 @@ export class MagicEdenModule implements PlatformModule {
             maxSupply: maxSupply as bigint,
         };
     }
+
+    /**
+     * Build the call for the detected quantity-based mint function.
+     * Launchpad contracts get mint(qty, proof, timestamp, signature) priced from the stage active now.
+     * With a cosigner the contract picks the stage from the signed timestamp instead, so cosigned
+     * mints need the imported signature and the timestamp it was issued for.
+     */
+    async buildMintCall(info: PlatformContractInfo, quantity: number, wallet: string): Promise<MintCall> {
+        if (!info.stages) {
+            return buildSignatureCall(info.address, info.mintFunction, quantity, wallet, info.getTotalValue(quantity));
+        }
+
+        const chain = CHAINS[info.chainId] || mainnet;
+        const publicClient = createPublicClient({
+            chain,
+            transport: getProviderTransport(info.chainId)
+        });
+
+        const contractAddress = info.address as `0x${string}`;
+
+        const cosigner = await publicClient.readContract({
+            address: contractAddress,
+            abi: ME_STAGES_ABI,
+            functionName: 'getCosigner',
+        }).catch(() => zeroAddress);
+
+        const proof = info.credentials?.proof || [];
+        const signature = info.credentials?.signature || '0x';
+        const signedAt = signedTimestamp(info);
+        if (cosigner !== zeroAddress && (signature === '0x' || signedAt === undefined)) {
+            throw new Error(`Minting needs a cosigner signature and the timestamp it was signed for - import them with 'contract stage stage:<n> {"signature":"0x...","mintParams":{"timestamp":...}}'`);
+        }
+        const timestamp = signedAt ?? BigInt(0);
+
+        const index = await publicClient.readContract({
+            address: contractAddress,
+            abi: ME_STAGES_ABI,
+            functionName: 'getActiveStageFromTimestamp',
+            args: [cosigner !== zeroAddress ? timestamp : BigInt(Math.floor(Date.now() / 1000))],
+        }).catch(() => {
+            throw new Error(cosigner !== zeroAddress
+                ? `No Magic Eden stage is active at the signed timestamp ${timestamp}`
+                : 'No Magic Eden stage is active right now');
+        });
+
+        const stage = await this.readStage(publicClient, contractAddress, Number(index), info.tokenId);
+        if (!stage) throw new Error(`Could not read Magic Eden stage ${index}`);
+
+        if (stage.merkleRoot !== ZERO_ROOT && proof.length === 0) {
+            throw new Error(`Stage ${stage.index} is an allowlist stage - import your proof with 'contract stage stage:${stage.index} {"proof":[...]}'`);
+        }
+
+        const value = (stage.price + stage.mintFee) * BigInt(quantity);
+
+        if (info.tokenId !== undefined) {
+            return {
+                to: contractAddress,
+                abi: ME_1155_ABI,
+                functionName: 'mint',
+                args: [info.tokenId, quantity, proof, timestamp, signature],
+                value,
+            };
+        }
+
+        return {
+            to: contractAddress,
+            abi: ME_721_MINT_ABI,
+            functionName: 'mint',
+            args: [quantity, proof, timestamp, signature],
+            value,
+        };
+    }
+
+    /**
+     * Price of the stage active at the given block (launchpad contracts), else the getter price
+     */
+    async quote(info: PlatformContractInfo, quantity: number, options: QuoteOptions = {}): Promise<PriceQuote> {
+        if (!info.stages) return linearQuote(info, quantity);
+
+        const chain = CHAINS[info.chainId] || mainnet;
+        const publicClient = createPublicClient({
+            chain,
+            transport: getProviderTransport(info.chainId)
+        });
+
+        const contractAddress = info.address as `0x${string}`;
+
+        // The contract picks the stage from the signed timestamp (cosigned mints), else the block timestamp
+        const timestamp = signedTimestamp(info) ?? (options.blockNumber !== undefined
+            ? (await publicClient.getBlock({ blockNumber: options.blockNumber })).timestamp
+            : BigInt(Math.floor(Date.now() / 1000)));
+
+        const index = await publicClient.readContract({
+            address: contractAddress,
+            abi: ME_STAGES_ABI,
+            functionName: 'getActiveStageFromTimestamp',
+            args: [timestamp],
+            blockNumber: options.blockNumber,
+        }).catch(() => undefined);
+
+        const stage = index !== undefined
+            ? await this.readStage(publicClient, contractAddress, Number(index), info.tokenId)
+            : null;
+        if (!stage) return linearQuote(info, quantity);
+
+        const qty = BigInt(quantity);
+        return {
+            quantity,
+            basePrice: stage.price * qty,
+            protocolFee: stage.mintFee * qty,
+            creatorFee: BigInt(0),
+            affiliateDiscount: BigInt(0),
+            total: (stage.price + stage.mintFee) * qty,
+        };
+    }
+
+    /**
+     * Stage list, active stage and wallet progress of an ERC721M/ERC1155M contract
+     */
+    private async analyzeStages(
+        publicClient: PublicClient,
+        contractAddress: `0x${string}`,
+        chainId: number,
+        numberStages: number,
+        options: AnalyzeOptions
+    ): Promise<PlatformContractInfo> {
+        const tokenStandard = await readTokenStandard(publicClient, contractAddress);
+        const tokenId = tokenStandard === 'ERC1155' ? options.tokenId : undefined;
+        if (tokenStandard === 'ERC1155' && tokenId === undefined) {
+            throw new Error('Magic Eden ERC1155M: pass --token <id> to select the token');
+        }
+
+        const [name, totalSupply, maxSupply, cosigner, activeIndex] = await Promise.all([
+            publicClient.readContract({
+                address: contractAddress,
+                abi: TOKEN_ABI,
+                functionName: 'name',
+            }).catch(() => 'Unknown'),
+            (tokenId === undefined
+                ? publicClient.readContract({ address: contractAddress, abi: ME_721_MINT_ABI, functionName: 'totalSupply' })
+                : publicClient.readContract({ address: contractAddress, abi: ME_1155_ABI, functionName: 'totalSupply', args: [tokenId] })
+            ).catch(() => BigInt(0)),
+            (tokenId === undefined
+                ? publicClient.readContract({ address: contractAddress, abi: ME_721_MINT_ABI, functionName: 'getMaxMintableSupply' })
+                : publicClient.readContract({ address: contractAddress, abi: ME_1155_ABI, functionName: 'getMaxMintableSupply', args: [tokenId] })
+            ).catch(() => BigInt(0)),
+            publicClient.readContract({
+                address: contractAddress,
+                abi: ME_STAGES_ABI,
+                functionName: 'getCosigner',
+            }).catch(() => zeroAddress),
+            // Reverts when no stage covers the current time
+            publicClient.readContract({
+                address: contractAddress,
+                abi: ME_STAGES_ABI,
+                functionName: 'getActiveStageFromTimestamp',
+                args: [BigInt(Math.floor(Date.now() / 1000))],
+            }).then(Number).catch(() => undefined),
+        ]);
+
+        const launchpadStages: LaunchpadStage[] = [];
+        for (let index = 0; index < numberStages; index++) {
+            const stage = await this.readStage(publicClient, contractAddress, index, tokenId, options.wallet);
+            if (stage) launchpadStages.push(stage);
+        }
+
+        const hasCosigner = cosigner !== zeroAddress;
+        const stages: MintStage[] = launchpadStages.map(stage => {
+            const gates: string[] = [];
+            if (stage.merkleRoot !== ZERO_ROOT) gates.push(`Merkle ${stage.merkleRoot.slice(0, 10)}…`);
+            if (hasCosigner) gates.push('Cosigner');
+            return {
+                id: `stage:${stage.index}`,
+                name: `Stage ${stage.index}`,
+                price: stage.price + stage.mintFee,
+                startTime: stage.startTime,
+                endTime: stage.endTime,
+                maxPerWallet: stage.walletLimit > 0 ? BigInt(stage.walletLimit) : undefined,
+                gate: gates.length > 0 ? gates.join(' + ') : undefined,
+                merkleRoot: stage.merkleRoot !== ZERO_ROOT ? stage.merkleRoot : undefined,
+                isActive: stage.index === activeIndex,
+            };
+        });
+
+        // Price the active stage, else the next one to open
+        const now = Math.floor(Date.now() / 1000);
+        const selected = launchpadStages.find(stage => stage.index === activeIndex)
+            || launchpadStages.find(stage => stage.startTime > now)
+            || launchpadStages[launchpadStages.length - 1];
+
+        const mintPrice = selected?.price ?? BigInt(0);
+        const mintFee = selected?.mintFee ?? BigInt(0);
+        const maxPerWallet = selected && selected.walletLimit > 0 ? BigInt(selected.walletLimit) : undefined;
+
+        // getStageInfo reports the caller's minted count, so it is only meaningful with a wallet
+        let eligibility: PlatformContractInfo['eligibility'];
+        if (options.wallet && selected && selected.index === activeIndex) {
+            if (selected.walletLimit > 0 && selected.walletMinted >= selected.walletLimit) {
+                eligibility = { eligible: false, reason: `Wallet limit reached (${selected.walletMinted}/${selected.walletLimit})` };
+            } else if (selected.maxStageSupply > 0 && selected.stageMinted >= BigInt(selected.maxStageSupply)) {
+                eligibility = { eligible: false, reason: 'Stage supply exhausted' };
+            } else {
+                eligibility = { eligible: true };
+            }
+        }
+
+        console.log(`📋 Magic Eden Launchpad: ${launchpadStages.length} stage(s), active: ${activeIndex ?? 'none'}${hasCosigner ? `, cosigner ${cosigner}` : ''}`);
+
+        return {
+            address: contractAddress,
+            name: name as string,
+            chainId,
+            platform: 'magiceden',
+            tokenStandard,
+            mintFunction: tokenId === undefined
+                ? 'mint(uint32,bytes32[],uint64,bytes)'
+                : 'mint(uint256,uint32,bytes32[],uint64,bytes)',
+            mintPrice,
+            protocolFee: mintFee,
+            creatorFee: BigInt(0),
+            getTotalValue: (quantity: number) => (mintPrice + mintFee) * BigInt(quantity),
+            isActive: activeIndex !== undefined,
+            totalSupply: totalSupply as bigint,
+            maxSupply: maxSupply as bigint,
+            maxPerWallet,
+            tokenId,
+            stages,
+            eligibility,
+        };
+    }
+
+    private async readNumberStages(publicClient: PublicClient, address: `0x${string}`): Promise<number | null> {
+        try {
+            const count = await publicClient.readContract({
+                address,
+                abi: ME_STAGES_ABI,
+                functionName: 'getNumberStages',
+            });
+            return Number(count);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Read one stage, trying the ERC1155M layout for token drops and both ERC721M layouts otherwise.
+     * The mint-fee layout is tried first: the shorter one would mis-decode its return data.
+     */
+    private async readStage(
+        publicClient: PublicClient,
+        address: `0x${string}`,
+        index: number,
+        tokenId?: bigint,
+        wallet?: string
+    ): Promise<LaunchpadStage | null> {
+        const account = wallet as `0x${string}` | undefined;
+
+        if (tokenId !== undefined) {
+            try {
+                const [info, walletMinted, stageMinted] = await publicClient.readContract({
+                    address,
+                    abi: ME_1155_ABI,
+                    functionName: 'getStageInfo',
+                    args: [BigInt(index)],
+                    account,
+                });
+                const i = Number(tokenId);
+                return {
+                    index,
+                    price: info.price[i] ?? BigInt(0),
+                    mintFee: info.mintFee[i] ?? BigInt(0),
+                    walletLimit: info.walletLimit[i] ?? 0,
+                    merkleRoot: info.merkleRoot[i] ?? ZERO_ROOT,
+                    maxStageSupply: info.maxStageSupply[i] ?? 0,
+                    startTime: Number(info.startTimeUnixSeconds),
+                    endTime: Number(info.endTimeUnixSeconds),
+                    walletMinted: walletMinted[i] ?? 0,
+                    stageMinted: stageMinted[i] ?? BigInt(0),
+                };
+            } catch {
+                return null;
+            }
+        }
+
+        try {
+            const [info, walletMinted, stageMinted] = await publicClient.readContract({
+                address,
+                abi: ME_721_V2_ABI,
+                functionName: 'getStageInfo',
+                args: [BigInt(index)],
+                account,
+            });
+            return {
+                index,
+                price: info.price,
+                mintFee: info.mintFee,
+                walletLimit: info.walletLimit,
+                merkleRoot: info.merkleRoot,
+                maxStageSupply: info.maxStageSupply,
+                startTime: Number(info.startTimeUnixSeconds),
+                endTime: Number(info.endTimeUnixSeconds),
+                walletMinted,
+                stageMinted,
+            };
+        } catch { /* try the layout without mintFee */ }
+
+        try {
+            const [info, walletMinted, stageMinted] = await publicClient.readContract({
+                address,
+                abi: ME_721_V1_ABI,
+                functionName: 'getStageInfo',
+                args: [BigInt(index)],
+                account,
+            });
+            return {
+                index,
+                price: info.price,
+                mintFee: BigInt(0),
+                walletLimit: info.walletLimit,
+                merkleRoot: info.merkleRoot,
+                maxStageSupply: info.maxStageSupply,
+                startTime: Number(info.startTimeUnixSeconds),
+                endTime: Number(info.endTimeUnixSeconds),
+                walletMinted,
+                stageMinted,
+            };
+        } catch {
+            return null;
+        }
+    }
 }
@@ -1,6 +1,7 @@
-import { createPublicClient, http, parseAbi, type Chain } from 'viem';
+import { createPublicClient, encodePacked, keccak256, parseAbi, zeroAddress, type Chain, type PublicClient } from 'viem';
 import { mainnet, sepolia, goerli, polygon, arbitrum, optimism, base } from 'viem/chains';
-import type { PlatformModule, PlatformContractInfo } from './PlatformManager';
+import { getProviderTransport } from '../../config/transport';
+import { linearQuote, readPaymentToken, readTokenStandard, detectionFrom, detectionSignal, type PlatformDetection, type PlatformModule, type PlatformContractInfo, type MintCall, type MintStage, type AnalyzeOptions, type PriceQuote, type AllowlistEncoding, type ClaimTarget } from './PlatformManager';
 
 // Chain lookup
 const CHAINS: Record<number, Chain> = {
@@ -13,106 +14,420 @@ const CHAINS: Record<number, Chain> = {
     8453: base,
 };
 
-// Foundation/Manifold ABI patterns
+// Creator contract (the NFT itself) - claims are registered extensions
+const CREATOR_ABI = parseAbi([
+    'function getExtensions() view returns (address[])',
+    'function name() view returns (string)',
+    'function totalSupply() view returns (uint256)',
+] as const);
+
+// Claim extension (ERC721/ERC1155 LazyPayableClaim)
 const MANIFOLD_ABI = parseAbi([
-    // Detection - Manifold contracts have these
+    // Detection - Manifold claim extensions have these
     'function MINT_FEE() view returns (uint256)',
     'function MINT_FEE_MERKLE() view returns (uint256)',
 
-    // Claim extension functions
-    'function getClaim(address creatorContractAddress, uint256 instanceId) view returns ((uint32 total, uint32 totalMax, uint32 walletMax, uint48 startDate, uint48 endDate, uint8 storageProtocol, bytes32 merkleRoot, string location, uint256 tokenId, uint256 cost, address payable paymentReceiver, address erc20))',
-
     // Mint functions (called on the extension contract)
-    'function mint(address creatorContractAddress, uint256 instanceId, uint32 mintCount, uint32[] mintIndices, bytes32[][] merkleProofs, address mintFor) payable',
+    'function mint(address creatorContractAddress, uint256 instanceId, uint32 mintIndex, bytes32[] merkleProof, address mintFor) payable',
     'function mintBatch(address creatorContractAddress, uint256 instanceId, uint16 mintCount, uint32[] mintIndices, bytes32[][] merkleProofs, address mintFor) payable',
 
-    // Basic info (on the NFT contract itself)
-    'function name() view returns (string)',
-    'function totalSupply() view returns (uint256)',
+    // Emitted once per claim instance - the only way to enumerate them
+    'event ClaimInitialized(address indexed creatorContract, uint256 indexed instanceId, address initializer)',
+] as const);
+
+// getClaim layouts differ between the ERC721 extension versions and the ERC1155 extension
+const CLAIM_721_V2_ABI = parseAbi([
+    'function getClaim(address creatorContractAddress, uint256 instanceId) view returns ((uint32 total, uint32 totalMax, uint32 walletMax, uint48 startDate, uint48 endDate, uint8 storageProtocol, uint8 contractVersion, bool identical, bytes32 merkleRoot, string location, uint256 cost, address paymentReceiver, address erc20))',
+] as const);
+
+const CLAIM_721_V1_ABI = parseAbi([
+    'function getClaim(address creatorContractAddress, uint256 instanceId) view returns ((uint32 total, uint32 totalMax, uint32 walletMax, uint48 startDate, uint48 endDate, uint8 storageProtocol, bool identical, bytes32 merkleRoot, string location, uint256 cost, address paymentReceiver, address erc20))',
+] as const);
+
+const CLAIM_1155_ABI = parseAbi([
+    'function getClaim(address creatorContractAddress, uint256 instanceId) view returns ((uint32 total, uint32 totalMax, uint32 walletMax, uint48 startDate, uint48 endDate, uint8 storageProtocol, bytes32 merkleRoot, string location, uint256 tokenId, uint256 cost, address paymentReceiver, address erc20))',
 ] as const);
 
+const ZERO_ROOT = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+/**
+ * A claim instance as read from its extension
+ */
+interface ManifoldClaim {
+    extension: `0x${string}`;
+    instanceId: bigint;
+    total: number;
+    totalMax: number;
+    walletMax: number;
+    startDate: number;
+    endDate: number;
+    merkleRoot: `0x${string}`;
+    cost: bigint;
+    erc20: `0x${string}`;
+    // ERC1155 claims mint a single token ID
+    tokenId?: bigint;
+}
+
 /**
  * Manifold Module
- * 
+ *
  * Handles Manifold Creator contracts and claim extensions.
  * Used by Foundation and many artists.
+ *
+ * Minting goes through a claim extension registered on the creator contract;
+ * each drop is a claim instance on that extension.
  */
 export class ManifoldModule implements PlatformModule {
     name = 'Manifold';
 
-    async detect(address: string, chainId: number): Promise<boolean> {
+    async detect(address: string, chainId: number): Promise<PlatformDetection> {
         const chain = CHAINS[chainId] || mainnet;
         const publicClient = createPublicClient({
             chain,
-            transport: http()
+            transport: getProviderTransport(chainId)
         });
 
         const contractAddress = address as `0x${string}`;
 
-        try {
-            // Check for MINT_FEE which is unique to Manifold claim extensions
-            await publicClient.readContract({
-                address: contractAddress,
-                abi: MANIFOLD_ABI,
-                functionName: 'MINT_FEE',
-            });
-            console.log(`✅ Detected Manifold contract via MINT_FEE()`);
-            return true;
-        } catch {
-            return false;
+        // The claim extension itself
+        if (await this.isClaimExtension(publicClient, contractAddress)) {
+            return detectionFrom([detectionSignal('Claim extension: MINT_FEE() answers', true, 0.9)]);
+        }
+
+        // A creator contract with a claim extension registered
+        const extensions = await publicClient.readContract({
+            address: contractAddress,
+            abi: CREATOR_ABI,
+            functionName: 'getExtensions',
+        }).catch(() => undefined);
+
+        if (!extensions) {
+            return detectionFrom([detectionSignal('MINT_FEE() or getExtensions() answers', false, 0.9)]);
         }
+
+        for (const extension of extensions) {
+            if (await this.isClaimExtension(publicClient, extension)) {
+                return detectionFrom([detectionSignal(`Creator contract with claim extension ${extension}`, true, 0.9)]);
+            }
+        }
+
+        return detectionFrom([detectionSignal(`Creator contract, but none of ${extensions.length} extension(s) is a claim extension`, false, 0.9)]);
     }
 
-    async analyze(address: string, chainId: number): Promise<PlatformContractInfo> {
+    async analyze(address: string, chainId: number, options: AnalyzeOptions = {}): Promise<PlatformContractInfo> {
         const chain = CHAINS[chainId] || mainnet;
         const publicClient = createPublicClient({
             chain,
-            transport: http()
+            transport: getProviderTransport(chainId)
         });
 
-        const contractAddress = address as `0x${string}`;
+        let creator = address as `0x${string}`;
+        let extensions: `0x${string}`[];
 
-        const [name, totalSupply] = await Promise.all([
-            publicClient.readContract({
-                address: contractAddress,
+        if (await this.isClaimExtension(publicClient, creator)) {
+            // Loaded the extension directly: the instance ID tells us which creator contract
+            if (options.instanceId === undefined) {
+                throw new Error('Manifold extension loaded: pass --instance <id> to select the claim');
+            }
+            const extension = creator;
+            // Full-history log scans are often refused by public RPCs
+            const logs = await publicClient.getContractEvents({
+                address: extension,
                 abi: MANIFOLD_ABI,
+                eventName: 'ClaimInitialized',
+                args: { instanceId: options.instanceId },
+                fromBlock: 'earliest',
+            }).catch(() => {
+                throw new Error(`Could not look up the creator contract of claim ${options.instanceId} on ${extension} (the RPC refused the log scan) - load the creator contract instead`);
+            });
+            if (logs.length === 0 || !logs[0].args.creatorContract) {
+                throw new Error(`Claim instance ${options.instanceId} not found on extension ${extension}`);
+            }
+            creator = logs[0].args.creatorContract;
+            extensions = [extension];
+        } else {
+            const registered = await publicClient.readContract({
+                address: creator,
+                abi: CREATOR_ABI,
+                functionName: 'getExtensions',
+            }).catch(() => [] as readonly `0x${string}`[]);
+
+            extensions = [];
+            for (const extension of registered) {
+                if (await this.isClaimExtension(publicClient, extension)) extensions.push(extension);
+            }
+        }
+
+        const [name, tokenStandard] = await Promise.all([
+            publicClient.readContract({
+                address: creator,
+                abi: CREATOR_ABI,
                 functionName: 'name',
             }).catch(() => 'Unknown'),
-            publicClient.readContract({
-                address: contractAddress,
-                abi: MANIFOLD_ABI,
-                functionName: 'totalSupply',
-            }).catch(() => BigInt(0)),
+            readTokenStandard(publicClient, creator),
         ]);
+        const is1155 = tokenStandard === 'ERC1155';
 
-        // Get Manifold protocol fee
-        let protocolFee = BigInt(0);
-        try {
-            protocolFee = await publicClient.readContract({
-                address: contractAddress,
-                abi: MANIFOLD_ABI,
-                functionName: 'MINT_FEE',
-            }) as bigint;
-        } catch { }
+        // Collect claim instances from every extension
+        const claims: ManifoldClaim[] = [];
+        for (const extension of extensions) {
+            let instanceIds: bigint[];
+            if (options.instanceId !== undefined) {
+                instanceIds = [options.instanceId];
+            } else {
+                try {
+                    const logs = await publicClient.getContractEvents({
+                        address: extension,
+                        abi: MANIFOLD_ABI,
+                        eventName: 'ClaimInitialized',
+                        args: { creatorContract: creator },
+                        fromBlock: 'earliest',
+                    });
+                    instanceIds = logs
+                        .map(log => log.args.instanceId)
+                        .filter((id): id is bigint => id !== undefined);
+                } catch (e) {
+                    console.warn(`⚠️ Could not enumerate claims on ${extension} (use --instance <id>):`, e);
+                    instanceIds = [];
+                }
+            }
+
+            for (const instanceId of instanceIds) {
+                const claim = await this.readClaim(publicClient, extension, creator, instanceId, is1155);
+                if (claim) claims.push(claim);
+            }
+        }
+
+        if (claims.length === 0) {
+            throw new Error(`No Manifold claim found for ${creator}${options.instanceId !== undefined ? ` (instance ${options.instanceId})` : ''}`);
+        }
+
+        // --token picks the claim(s) minting that ERC1155 token
+        const candidates = options.tokenId !== undefined
+            ? claims.filter(c => c.tokenId === options.tokenId)
+            : claims;
+        if (candidates.length === 0) {
+            throw new Error(`No Manifold claim mints token ${options.tokenId} on ${creator}`);
+        }
 
-        // Note: Manifold claim minting is complex - requires extension contract + instance ID
-        // For now, we detect it but user may need to use specific extension contracts
-        const mintFunction = 'mint(address,uint256,uint32,uint32[],bytes32[][],address)';
+        const now = Math.floor(Date.now() / 1000);
+        const isOpen = (c: ManifoldClaim) =>
+            (c.startDate === 0 || now >= c.startDate) && (c.endDate === 0 || now < c.endDate) &&
+            (c.totalMax === 0 || c.total < c.totalMax);
+
+        const stages: MintStage[] = claims.map(c => ({
+            id: `claim:${c.instanceId}`,
+            name: c.tokenId !== undefined ? `Claim #${c.instanceId} (token ${c.tokenId})` : `Claim #${c.instanceId}`,
+            price: c.cost,
+            startTime: c.startDate,
+            endTime: c.endDate,
+            maxPerWallet: c.walletMax > 0 ? BigInt(c.walletMax) : undefined,
+            currency: c.erc20 !== zeroAddress ? c.erc20 : undefined,
+            gate: c.merkleRoot !== ZERO_ROOT ? `Merkle ${c.merkleRoot.slice(0, 10)}…` : undefined,
+            merkleRoot: c.merkleRoot !== ZERO_ROOT ? c.merkleRoot : undefined,
+            isActive: isOpen(c),
+        }));
+
+        // Pricing for every claim, so 'contract stage claim:<id>' can switch between them.
+        // The protocol fee is per token and per extension; the Merkle variant is charged on allowlist claims.
+        const fees = new Map<string, bigint>();
+        const claimTargets: Record<string, ClaimTarget> = {};
+        for (const c of claims) {
+            const isMerkle = c.merkleRoot !== ZERO_ROOT;
+            const feeKey = `${c.extension}:${isMerkle}`;
+            let protocolFee = fees.get(feeKey);
+            if (protocolFee === undefined) {
+                protocolFee = await publicClient.readContract({
+                    address: c.extension,
+                    abi: MANIFOLD_ABI,
+                    functionName: isMerkle ? 'MINT_FEE_MERKLE' : 'MINT_FEE',
+                }).catch(() => BigInt(0)); // older extensions have no fee
+                fees.set(feeKey, protocolFee);
+            }
+
+            // ERC20-priced claims only take the fee in native currency
+            claimTargets[`claim:${c.instanceId}`] = {
+                extension: c.extension,
+                instanceId: c.instanceId,
+                tokenId: c.tokenId,
+                mintPrice: c.erc20 === zeroAddress ? c.cost : BigInt(0),
+                protocolFee,
+                payment: c.erc20 === zeroAddress
+                    ? undefined
+                    : await readPaymentToken(publicClient, c.erc20, c.extension, c.cost),
+            };
+        }
+
+        // Selected claim: explicit instance, else the open one, else the latest
+        const selected = candidates.find(isOpen) || candidates[candidates.length - 1];
+        const { mintPrice, protocolFee, payment } = claimTargets[`claim:${selected.instanceId}`];
+
+        console.log(`📋 Manifold Claim Analysis:`);
+        console.log(`   Extension: ${selected.extension}, Instance: ${selected.instanceId}`);
+        console.log(`   Cost: ${selected.cost}${selected.erc20 !== zeroAddress ? ` (ERC20 ${selected.erc20})` : ' wei'}`);
+        console.log(`   Mint Fee: ${protocolFee} wei`);
 
         return {
-            address,
+            address: creator,
             name: name as string,
             chainId,
-            platform: 'manifold' as any,
-            tokenStandard: 'ERC721',
-            mintFunction,
-            mintPrice: BigInt(0), // Price is per-claim, need instanceId
+            platform: 'manifold',
+            tokenStandard,
+            mintFunction: 'mint(address,uint256,uint32,bytes32[],address)',
+            mintPrice,
             protocolFee,
             creatorFee: BigInt(0),
-            getTotalValue: (quantity: number) => protocolFee * BigInt(quantity),
-            isActive: true, // Would need specific claim check
-            totalSupply: totalSupply as bigint,
-            maxSupply: BigInt(0),
+            getTotalValue: (quantity: number) => (mintPrice + protocolFee) * BigInt(quantity),
+            isActive: isOpen(selected),
+            totalSupply: BigInt(selected.total),
+            maxSupply: BigInt(selected.totalMax),
+            maxPerWallet: selected.walletMax > 0 ? BigInt(selected.walletMax) : undefined,
+            routerContract: selected.extension,
+            instanceId: selected.instanceId,
+            tokenId: selected.tokenId,
+            stages,
+            claims: claimTargets,
+            payment,
         };
     }
+
+    /**
+     * The contract priced and routed for the claim chosen with 'contract stage claim:<id>'
+     * (the claim picked at analyze time when no stage, or 'public', is selected)
+     */
+    private withSelectedClaim(info: PlatformContractInfo): PlatformContractInfo {
+        const stage = info.credentials?.stage;
+        if (!stage || stage === 'public') return info;
+
+        const claim = info.claims?.[stage];
+        if (!claim) {
+            throw new Error(`Unknown Manifold stage "${stage}" (stages: ${Object.keys(info.claims || {}).join(', ')})`);
+        }
+
+        const { mintPrice, protocolFee } = claim;
+        return {
+            ...info,
+            routerContract: claim.extension,
+            instanceId: claim.instanceId,
+            tokenId: claim.tokenId,
+            mintPrice,
+            protocolFee,
+            payment: claim.payment,
+            getTotalValue: (quantity: number) => (mintPrice + protocolFee) * BigInt(quantity),
+        };
+    }
+
+    /**
+     * Build mint (single) or mintBatch on the claim extension.
+     * Merkle claims redeem one allowlist entry per proof, so they mint one at a time.
+     */
+    async buildMintCall(info: PlatformContractInfo, quantity: number, wallet: string): Promise<MintCall> {
+        info = this.withSelectedClaim(info);
+        if (!info.routerContract || info.instanceId === undefined) {
+            throw new Error(`Manifold claim for ${info.address} has no resolved extension/instance ID`);
+        }
+
+        const proof = info.credentials?.proof || [];
+        const mintIndex = info.credentials?.mintIndex ?? 0;
+        const extension = info.routerContract as `0x${string}`;
+
+        // ERC20 cost is pulled by the extension; msg.value still carries the mint fee
+        const payment = info.payment
+            ? { token: info.payment.address, spender: info.payment.spender, amount: info.payment.price * BigInt(quantity) }
+            : undefined;
+
+        if (quantity === 1) {
+            return {
+                to: extension,
+                abi: MANIFOLD_ABI,
+                functionName: 'mint',
+                args: [info.address, info.instanceId, mintIndex, proof, wallet],
+                value: info.getTotalValue(quantity),
+                payment,
+            };
+        }
+
+        if (proof.length > 0) {
+            throw new Error('Manifold Merkle claims mint one token per proof - use quantity 1');
+        }
+
+        return {
+            to: extension,
+            abi: MANIFOLD_ABI,
+            functionName: 'mintBatch',
+            args: [info.address, info.instanceId, quantity, [], [], wallet],
+            value: info.getTotalValue(quantity),
+            payment,
+        };
+    }
+
+    /**
+     * Claim cost and the extension's mint fee are both flat per token
+     */
+    async quote(info: PlatformContractInfo, quantity: number): Promise<PriceQuote> {
+        return linearQuote(this.withSelectedClaim(info), quantity);
+    }
+
+    /**
+     * Each allowlist row is one mint, keyed by its position: keccak256(abi.encodePacked(wallet, uint32 mintIndex))
+     */
+    allowlistEncoding(stage: MintStage): AllowlistEncoding {
+        return {
+            description: 'keccak256(abi.encodePacked(address, uint32 mintIndex))',
+            leaf: entry => keccak256(encodePacked(['address', 'uint32'], [entry.address, entry.index])),
+            credentials: entry => ({ stage: stage.id, mintIndex: entry.index }),
+        };
+    }
+
+    private async isClaimExtension(publicClient: PublicClient, address: `0x${string}`): Promise<boolean> {
+        try {
+            await publicClient.readContract({
+                address,
+                abi: MANIFOLD_ABI,
+                functionName: 'MINT_FEE',
+            });
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Read a claim instance, trying each known getClaim layout
+     */
+    private async readClaim(
+        publicClient: PublicClient,
+        extension: `0x${string}`,
+        creator: `0x${string}`,
+        instanceId: bigint,
+        is1155: boolean
+    ): Promise<ManifoldClaim | null> {
+        const layouts = is1155 ? [CLAIM_1155_ABI] : [CLAIM_721_V2_ABI, CLAIM_721_V1_ABI];
+
+        for (const abi of layouts) {
+            try {
+                const claim = await publicClient.readContract({
+                    address: extension,
+                    abi,
+                    functionName: 'getClaim',
+                    args: [creator, instanceId],
+                });
+                return {
+                    extension,
+                    instanceId,
+                    total: Number(claim.total),
+                    totalMax: Number(claim.totalMax),
+                    walletMax: Number(claim.walletMax),
+                    startDate: Number(claim.startDate),
+                    endDate: Number(claim.endDate),
+                    merkleRoot: claim.merkleRoot,
+                    cost: BigInt(claim.cost),
+                    erc20: claim.erc20,
+                    tokenId: 'tokenId' in claim ? claim.tokenId : undefined,
+                };
+            } catch { /* try next layout */ }
+        }
+
+        return null;
+    }
 }
@@ -1,6 +1,7 @@
 import { createPublicClient, http, parseAbi, type Chain } from 'viem';
 import { mainnet, sepolia, goerli, polygon, arbitrum, optimism, base } from 'viem/chains';
-import type { PlatformModule, PlatformContractInfo } from './PlatformManager';
+import { getProviderTransport } from '../../config/transport';
+import { detectionFrom, detectionSignal, type PlatformModule, type PlatformContractInfo, type PlatformDetection, type MintCall, type PriceQuote, type QuoteOptions } from './PlatformManager';
 
 // Chain lookup
 const CHAINS: Record<number, Chain> = {
@@ -45,9 +46,9 @@ export class NFTs2MeModule implements PlatformModule {
     name = 'NFTs2Me';
 
     /**
-     * Detect if contract is an NFTs2Me contract by checking for protocolFee function
+     * Score whether the contract is an NFTs2Me contract by checking for its fee functions
      */
-    async detect(address: string, chainId: number): Promise<boolean> {
+    async detect(address: string, chainId: number): Promise<PlatformDetection> {
         const chain = CHAINS[chainId] || mainnet;
         const publicClient = createPublicClient({
             chain,
@@ -56,26 +57,18 @@ export class NFTs2MeModule implements PlatformModule {
 
         const contractAddress = address as `0x${string}`;
 
-        try {
-            // Try to call protocolFee() - this is unique to NFTs2Me
-            await publicClient.readContract({
-                address: contractAddress,
-                abi: DETECTION_ABI,
-                functionName: 'protocolFee',
-            });
-
-            // Also verify mintFee exists
-            await publicClient.readContract({
-                address: contractAddress,
-                abi: DETECTION_ABI,
-                functionName: 'mintFee',
-                args: [BigInt(1)],
-            });
+        // protocolFee() and mintFee(uint256) together are unique to NFTs2Me; either alone is common
+        const [protocolFee, mintFee] = await Promise.all([
+            publicClient.readContract({ address: contractAddress, abi: DETECTION_ABI, functionName: 'protocolFee' })
+                .then(() => true).catch(() => false),
+            publicClient.readContract({ address: contractAddress, abi: DETECTION_ABI, functionName: 'mintFee', args: [BigInt(1)] })
+                .then(() => true).catch(() => false),
+        ]);
 
-            return true;
-        } catch {
-            return false;
-        }
+        return detectionFrom([
+            detectionSignal('protocolFee() answers', protocolFee, 0.45),
+            detectionSignal('mintFee(1) answers', mintFee, 0.45),
+        ]);
     }
 
     /**
@@ -177,4 +170,57 @@ export class NFTs2MeModule implements PlatformModule {
             maxPerWallet: maxPerAddress as bigint,
         };
     }
+
+    /**
+     * Build mint(uint256) call - value includes the per-transaction protocol fee
+     */
+    async buildMintCall(info: PlatformContractInfo, quantity: number): Promise<MintCall> {
+        const quote = await this.quote(info, quantity);
+
+        return {
+            to: info.address as `0x${string}`,
+            abi: NFTS2ME_ABI,
+            functionName: 'mint',
+            args: [BigInt(quantity)],
+            value: quote.total,
+        };
+    }
+
+    /**
+     * mintFee(amount) prices the whole quantity (it need not be linear); the protocol fee is per transaction
+     */
+    async quote(info: PlatformContractInfo, quantity: number, options: QuoteOptions = {}): Promise<PriceQuote> {
+        const chain = CHAINS[info.chainId] || mainnet;
+        const publicClient = createPublicClient({
+            chain,
+            transport: getProviderTransport(info.chainId)
+        });
+
+        const contractAddress = info.address as `0x${string}`;
+
+        const [basePrice, protocolFee] = await Promise.all([
+            publicClient.readContract({
+                address: contractAddress,
+                abi: NFTS2ME_ABI,
+                functionName: 'mintFee',
+                args: [BigInt(quantity)],
+                blockNumber: options.blockNumber,
+            }).catch(() => info.mintPrice * BigInt(quantity)),
+            publicClient.readContract({
+                address: contractAddress,
+                abi: NFTS2ME_ABI,
+                functionName: 'protocolFee',
+                blockNumber: options.blockNumber,
+            }).catch(() => info.protocolFee),
+        ]);
+
+        return {
+            quantity,
+            basePrice,
+            protocolFee,
+            creatorFee: BigInt(0),
+            affiliateDiscount: BigInt(0),
+            total: basePrice + protocolFee,
+        };
+    }
 }
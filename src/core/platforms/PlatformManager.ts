@@ -1,5 +1,341 @@
+import { createPublicClient, encodePacked, keccak256, parseAbiItem, parseEventLogs, zeroAddress, type Abi, type AbiFunction, type PublicClient } from 'viem';
+import { ERC20_ABI, ERC165_ABI, ERC1155_INTERFACE_ID, TRANSFER_EVENTS_ABI } from '../../config/abis';
+import { getChainById } from '../../config/chains';
+import { getProviderTransport } from '../../config/transport';
+import { parseAbiArgs, type ArgContext } from '../../utils/abiArgs';
+import { findMintCandidates, type SelectorReport } from '../SelectorExtractor';
+import { resolveProxy, PROXY_LABELS, type ProxyInfo } from '../ProxyResolver';
+import type { MintProbe, PriceDiscovery } from '../ViemContractAnalyzer';
+import { readSaleState } from '../SaleStateHeuristics';
+import { getStoredProof } from '../../config/allowlistStorage';
+import { getPlatformSettings, setPlatformEnabled, setPlatformOrder } from '../../config/platformSettings';
+
 // Chain constants for reference (used by individual modules)
 
+/**
+ * A mint stage/phase as reported by the platform (public sale, allowlist, ...)
+ */
+export interface MintStage {
+    // Key used to select the stage (e.g. 'public', 'allowlist')
+    id: string;
+    name: string;
+    // Undefined when the price is set off-chain (e.g. inside a signed payload)
+    price?: bigint;
+    // Unix seconds; 0 means no bound
+    startTime: number;
+    endTime: number;
+    maxPerWallet?: bigint;
+    // ERC20 payment token; native currency when unset
+    currency?: string;
+    // What gates the stage, e.g. 'Merkle 0x1234…' or 'Signature'
+    gate?: string;
+    // Root the stage's allowlist proofs verify against
+    merkleRoot?: `0x${string}`;
+    // Price that moves over time: `delta` every `interval` seconds from `price` toward `reservePrice`
+    pricing?: { reservePrice: bigint; delta: bigint; interval: number };
+    isActive: boolean;
+    // Schedule lives off-chain (in the proof/signature payload), so whether it is open is unknown
+    offChain?: boolean;
+}
+
+/**
+ * Allowlist status from a module's stages: gated when every open stage has a gate.
+ * The phase lists the open stages, or the next one to open. Stages with an off-chain
+ * schedule can't be known to be open, so they make the phase unknown rather than gated.
+ */
+export function stageAllowlistStatus(stages: MintStage[]): Pick<PlatformContractInfo, 'requiresAllowlist' | 'phase'> {
+    const open = stages.filter(stage => stage.isActive);
+    if (open.length > 0) {
+        return {
+            requiresAllowlist: open.every(stage => stage.gate !== undefined),
+            phase: open.map(stage => stage.name).join(' + '),
+        };
+    }
+
+    const offChain = stages.filter(stage => stage.offChain);
+    if (offChain.length > 0) {
+        return { requiresAllowlist: false, phase: `Unknown (${offChain.map(stage => stage.name).join(' / ')} may be open)` };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const next = stages
+        .filter(stage => stage.startTime > now)
+        .sort((a, b) => a.startTime - b.startTime)[0];
+    return { requiresAllowlist: false, phase: next ? `Not started (next: ${next.name})` : 'Closed' };
+}
+
+/**
+ * ERC20 token a mint is priced in
+ */
+export interface PaymentToken {
+    address: `0x${string}`;
+    symbol: string;
+    decimals: number;
+    // Price per NFT in token units
+    price: bigint;
+    // Contract that pulls the tokens with transferFrom
+    spender: `0x${string}`;
+}
+
+/**
+ * Where and at what price a Manifold claim stage mints
+ */
+export interface ClaimTarget {
+    extension: `0x${string}`;
+    instanceId: bigint;
+    tokenId?: bigint;
+    mintPrice: bigint;
+    protocolFee: bigint;
+    payment?: PaymentToken;
+}
+
+/**
+ * Read symbol/decimals for an ERC20 payment token
+ */
+export async function readPaymentToken(
+    publicClient: PublicClient,
+    address: `0x${string}`,
+    spender: `0x${string}`,
+    price: bigint
+): Promise<PaymentToken> {
+    const [symbol, decimals] = await Promise.all([
+        publicClient.readContract({ address, abi: ERC20_ABI, functionName: 'symbol' }).catch(() => 'ERC20'),
+        publicClient.readContract({ address, abi: ERC20_ABI, functionName: 'decimals' }).catch(() => 18),
+    ]);
+
+    return { address, symbol, decimals, price, spender };
+}
+
+/**
+ * ERC-1155 when the contract reports the interface via ERC-165, ERC-721 otherwise
+ */
+export async function readTokenStandard(
+    publicClient: PublicClient,
+    address: `0x${string}`
+): Promise<PlatformContractInfo['tokenStandard']> {
+    const is1155 = await publicClient.readContract({
+        address,
+        abi: ERC165_ABI,
+        functionName: 'supportsInterface',
+        args: [ERC1155_INTERFACE_ID],
+    }).catch(() => false);
+
+    return is1155 ? 'ERC1155' : 'ERC721';
+}
+
+/**
+ * Dutch auction price curve: from startPrice at startTime down to endPrice at endTime,
+ * either continuously or in equal steps every stepInterval seconds
+ */
+export interface DutchAuctionCurve {
+    startPrice: bigint;
+    endPrice: bigint;
+    // Unix seconds
+    startTime: number;
+    endTime: number;
+    // 0 for a linear decay
+    stepInterval: number;
+}
+
+/**
+ * Price the curve gives at a timestamp
+ */
+export function auctionPriceAt(curve: DutchAuctionCurve, timestamp: number): bigint {
+    const { startPrice, endPrice, startTime, endTime, stepInterval } = curve;
+    if (timestamp <= startTime) return startPrice;
+    if (timestamp >= endTime) return endPrice;
+
+    const drop = startPrice - endPrice;
+    if (stepInterval > 0) {
+        const steps = Math.floor((endTime - startTime) / stepInterval);
+        const elapsed = Math.floor((timestamp - startTime) / stepInterval);
+        return steps > 0 ? startPrice - drop * BigInt(elapsed) / BigInt(steps) : endPrice;
+    }
+    return startPrice - drop * BigInt(timestamp - startTime) / BigInt(endTime - startTime);
+}
+
+/**
+ * First timestamp at which the curve is at or below a price; undefined when it never gets there
+ */
+export function auctionTimeAt(curve: DutchAuctionCurve, price: bigint): number | undefined {
+    const { startPrice, endPrice, startTime, endTime, stepInterval } = curve;
+    if (price >= startPrice) return startTime;
+    if (price < endPrice) return undefined;
+
+    const drop = startPrice - endPrice;
+    const needed = startPrice - price;
+    const ceilDiv = (a: bigint, b: bigint) => (a + b - BigInt(1)) / b;
+
+    if (stepInterval > 0) {
+        const steps = BigInt(Math.floor((endTime - startTime) / stepInterval));
+        if (steps === BigInt(0)) return endTime;
+        return Math.min(startTime + Number(ceilDiv(needed * steps, drop)) * stepInterval, endTime);
+    }
+    return startTime + Number(ceilDiv(needed * BigInt(endTime - startTime), drop));
+}
+
+/**
+ * Price levels over the auction, for display: evenly spaced points snapped to step boundaries
+ */
+export function auctionSchedule(curve: DutchAuctionCurve, points: number = 10): { time: number; price: bigint }[] {
+    const { startTime, endTime, stepInterval } = curve;
+    const duration = Math.max(endTime - startTime, 0);
+    const levels: { time: number; price: bigint }[] = [];
+
+    for (let i = 0; i <= points; i++) {
+        let time = startTime + Math.round(duration * i / points);
+        if (stepInterval > 0) {
+            time = Math.min(startTime + Math.ceil((time - startTime) / stepInterval) * stepInterval, endTime);
+        }
+        if (levels.length > 0 && levels[levels.length - 1].time === time) continue;
+        levels.push({ time, price: auctionPriceAt(curve, time) });
+    }
+
+    return levels;
+}
+
+/**
+ * What one wallet paid into a sale, from its own confirmed mint transactions
+ */
+export interface MintRecord {
+    quantity: number;
+    paid: bigint;
+}
+
+/**
+ * Refund owed to a wallet: nothing is claimable until the contract records its final price
+ */
+export interface RefundStatus {
+    settled: boolean;
+    // Price the refund is measured against (per token), when known
+    settledPrice?: bigint;
+    claimable: bigint;
+    // Not settled on-chain: the refund if it settles at the curve's resting price
+    estimate?: bigint;
+}
+
+/**
+ * One detection check: what it showed, and how strongly that points at the platform (0 when it found nothing)
+ */
+export interface DetectionSignal {
+    weight: number;
+    evidence: string;
+}
+
+/**
+ * A module's verdict on whether a contract belongs to its platform
+ */
+export interface PlatformDetection {
+    // 0 = no sign of the platform, 1 = certain
+    confidence: number;
+    // What each check found, in the order run
+    evidence: string[];
+}
+
+/**
+ * Every module's verdict for one contract, best match first
+ */
+export interface DetectionReport {
+    address: string;
+    chainId: number;
+    proxy?: ProxyInfo;
+    results: Array<PlatformDetection & { platform: string }>;
+    // Module chosen to handle the contract; undefined means the generic analyzer
+    best?: string;
+    detectedAt: number;
+}
+
+// Below this, a module's match is treated as coincidence and the generic analyzer is used
+export const MIN_DETECTION_CONFIDENCE = 0.5;
+
+/**
+ * A check's outcome as a signal: full weight when it found the platform's mark, none otherwise
+ */
+export function detectionSignal(check: string, found: boolean, weight: number): DetectionSignal {
+    return { weight: found ? weight : 0, evidence: `${found ? '✓' : '✗'} ${check}` };
+}
+
+/**
+ * Combine independent checks: each signal found removes its share of the remaining doubt
+ */
+export function detectionFrom(signals: DetectionSignal[]): PlatformDetection {
+    const doubt = signals.reduce((rest, signal) => rest * (1 - signal.weight), 1);
+    return {
+        confidence: Math.round((1 - doubt) * 100) / 100,
+        evidence: signals.map(signal => signal.evidence),
+    };
+}
+
+/**
+ * User-supplied data for gated stages (allowlist proofs, server signatures, token gates)
+ */
+export interface MintCredentials {
+    // Stage to mint in, by platform-specific key (e.g. 'allowlist', 'signed', 'token')
+    stage: string;
+    proof?: `0x${string}`[];
+    signature?: `0x${string}`;
+    salt?: bigint;
+    // Stage parameters the proof or signature commits to (e.g. SeaDrop MintParams)
+    mintParams?: Record<string, string | number | boolean>;
+    // Token-gated stages: the NFT collection and token IDs being redeemed
+    gateToken?: string;
+    gateTokenIds?: bigint[];
+    // Manifold Merkle claims: index of the wallet's allowlist entry
+    mintIndex?: number;
+}
+
+/**
+ * One row of an imported allowlist: the wallet, and the per-wallet terms some platforms hash into the leaf
+ */
+export interface AllowlistEntry {
+    address: `0x${string}`;
+    // Row position (Manifold's mintIndex)
+    index: number;
+    quantity?: bigint;
+    // Per token, in wei
+    price?: bigint;
+    currency?: `0x${string}`;
+}
+
+/**
+ * How a platform turns an allowlist row into a Merkle leaf, and the credentials a proof for it is minted with
+ */
+export interface AllowlistEncoding {
+    // e.g. 'keccak256(abi.encodePacked(address))'
+    description: string;
+    leaf(entry: AllowlistEntry): `0x${string}`;
+    credentials(entry: AllowlistEntry): Omit<MintCredentials, 'proof'>;
+}
+
+/**
+ * The most common leaf: the wallet address alone
+ */
+export function packedAddressAllowlist(stage: string): AllowlistEncoding {
+    return {
+        description: 'keccak256(abi.encodePacked(address))',
+        leaf: entry => keccak256(encodePacked(['address'], [entry.address])),
+        credentials: () => ({ stage }),
+    };
+}
+
+/**
+ * User-selected options that narrow what gets analyzed
+ */
+export interface AnalyzeOptions {
+    // Wallet to evaluate eligibility for (per-wallet limits, allowlists)
+    wallet?: string;
+    // Manifold: claim instance ID on the extension
+    instanceId?: bigint;
+    // ERC1155: token ID to mint
+    tokenId?: bigint;
+    // Scatter/Archetype: invite list, as a bytes32 key or a list name to hash
+    list?: string;
+    // Scan the bytecode for mint functions even when the platform module picks the function itself
+    explain?: boolean;
+    // Set by PlatformManager: the proxy pattern in front of the contract, so modules can inspect the implementation
+    proxy?: ProxyInfo;
+}
+
 /**
  * Platform-specific contract information
  */
@@ -10,7 +346,9 @@ export interface PlatformContractInfo {
     chainId: number;
 
     // Platform detection
-    platform: 'nfts2me' | 'opensea' | 'magiceden' | 'scatter' | 'dutchauction' | 'thirdweb' | 'zora' | 'manifold' | 'generic';
+    // Module id: nfts2me, opensea, magiceden, scatter, dutchauction, thirdweb, zora, manifold,
+    // a declarative platform's id, or generic
+    platform: string;
     tokenStandard: 'ERC721' | 'ERC1155';
 
     // Mint configuration
@@ -26,12 +364,205 @@ export interface PlatformContractInfo {
 
     // Contract state
     isActive: boolean;
+    // Only allowlisted (proof/signature/token-gated) wallets can mint right now, and the current phase for display.
+    // Set from the active stages, else by the module, else from the sale-state getters.
+    requiresAllowlist?: boolean;
+    phase?: string;
+    // Contracts without stages: the allowlist root from the sale-state getters
+    merkleRoot?: `0x${string}`;
     totalSupply?: bigint;
     maxSupply?: bigint;
     maxPerWallet?: bigint;
 
-    // For SeaDrop: the singleton contract to call
+    // Contract to call instead of the token (SeaDrop singleton, Manifold claim extension)
     routerContract?: string;
+    // For SeaDrop: fee recipient passed to the router (must be allowed when restricted)
+    feeRecipient?: string;
+    // For Manifold: claim instance on the extension
+    instanceId?: bigint;
+    // For ERC1155: the token ID being minted (price, supply and limits are per token)
+    tokenId?: bigint;
+    // For Zora 1155: sale strategy (minter) contract per stage id
+    minters?: Record<string, `0x${string}`>;
+    // For Manifold: extension, instance and per-token pricing of each claim, by stage id
+    claims?: Record<string, ClaimTarget>;
+
+    // All stages the platform exposes, for display
+    stages?: MintStage[];
+    // Selected gated stage and its proof/signature (public stage when unset)
+    credentials?: MintCredentials;
+
+    // Set when the mint is priced in an ERC20 (mintPrice then only covers native fees)
+    payment?: PaymentToken;
+
+    // Whether the analyzed wallet can mint right now, and why not
+    eligibility?: { eligible: boolean; reason?: string };
+
+    // For Scatter/Archetype: the invite list key used for pricing and minting
+    inviteKey?: `0x${string}`;
+    // For Scatter/Archetype: payment token of each ERC20-priced invite list, by stage id
+    listPayments?: Record<string, PaymentToken>;
+    // Mint functions found in the bytecode (generic/auto-discovered, or on request with --explain)
+    selectorReport?: SelectorReport;
+    // Generic contracts: candidate mint functions simulated from the wallet
+    mintProbes?: MintProbe[];
+    // Generic contracts: every price getter that answered, and the simulated minimum when they are missing or disagree
+    priceGetters?: Record<string, bigint>;
+    discoveredPrice?: bigint;
+    discoveryFailure?: PriceDiscovery['failure'];
+    // Generic contracts: limits, phase and schedule from the sale-state getters, and the getter(s) behind each value
+    maxPerTx?: bigint;
+    salePhase?: number;
+    saleStart?: number;
+    saleEnd?: number;
+    saleSources?: Record<string, string>;
+    // Proxy pattern and implementation, when the address is a proxy
+    proxy?: ProxyInfo;
+
+    // For Dutch auctions: the price curve from the auction config
+    auction?: DutchAuctionCurve;
+
+    // For Dutch auctions with rebates: the claim function and whether the contract reports amounts itself
+    refund?: { claimFunction: string; hasGetter: boolean };
+
+    // For Scatter/Archetype: affiliate credited on mint, signed by the collection's affiliate signer
+    affiliate?: { address: `0x${string}`; signature: `0x${string}` };
+}
+
+/**
+ * A fully-resolved mint call, ready to encode and send
+ */
+export interface MintCall {
+    // Contract that receives the call (token contract or router/extension)
+    to: `0x${string}`;
+    abi: Abi;
+    functionName: string;
+    args: readonly unknown[];
+    value: bigint;
+    // ERC20 the call will pull with transferFrom - must be approved first
+    payment?: { token: `0x${string}`; spender: `0x${string}`; amount: bigint };
+}
+
+/**
+ * Itemised price of a mint, as the contract would charge it
+ */
+export interface PriceQuote {
+    quantity: number;
+    // Sale price for the whole quantity before discounts (token units when paid in an ERC20)
+    basePrice: bigint;
+    protocolFee: bigint;
+    creatorFee: bigint;
+    // Taken off basePrice (Archetype affiliate mints)
+    affiliateDiscount: bigint;
+    // Native value to send: discounted base price (unless paid in an ERC20) plus fees
+    total: bigint;
+    // Set when the base price is paid in an ERC20
+    payment?: PaymentToken;
+}
+
+/**
+ * Who and when to price for
+ */
+export interface QuoteOptions {
+    wallet?: string;
+    // Price as of this block (latest when unset)
+    blockNumber?: bigint;
+}
+
+/**
+ * Quote from the analyzed per-token fields: (price + protocol fee) * quantity + creator fee
+ */
+export function linearQuote(info: PlatformContractInfo, quantity: number): PriceQuote {
+    const qty = BigInt(quantity);
+    const basePrice = (info.payment ? info.payment.price : info.mintPrice) * qty;
+    const protocolFee = info.protocolFee * qty;
+    const creatorFee = info.creatorFee;
+
+    return {
+        quantity,
+        basePrice,
+        protocolFee,
+        creatorFee,
+        affiliateDiscount: BigInt(0),
+        total: (info.payment ? BigInt(0) : basePrice) + protocolFee + creatorFee,
+        payment: info.payment,
+    };
+}
+
+/**
+ * Itemise a built call: fees are the analyzed per-token fields, the rest of the value
+ * (or the ERC20 amount pulled) is the sale price for the selected stage
+ */
+export function quoteFromCall(info: PlatformContractInfo, quantity: number, call: MintCall): PriceQuote {
+    const protocolFee = info.protocolFee * BigInt(quantity);
+    const creatorFee = info.creatorFee;
+    const fees = protocolFee + creatorFee;
+
+    return {
+        quantity,
+        basePrice: call.payment ? call.payment.amount : call.value > fees ? call.value - fees : BigInt(0),
+        protocolFee,
+        creatorFee,
+        affiliateDiscount: BigInt(0),
+        total: call.value,
+        payment: call.payment ? info.payment : undefined,
+    };
+}
+
+/**
+ * Build a call from a plain signature such as 'mint(uint256)' or 'mint(address,uint256)'.
+ * Numeric parameters receive the quantity, address parameters the receiving wallet,
+ * bytes32[] parameters the allowlist proof.
+ */
+export function buildSignatureCall(
+    to: string,
+    signature: string,
+    quantity: number,
+    wallet: string,
+    value: bigint,
+    proof: `0x${string}`[] = []
+): MintCall {
+    const abiItem = parseAbiItem(`function ${signature} payable`);
+    if (abiItem.type !== 'function') {
+        throw new Error(`Invalid mint signature: ${signature}`);
+    }
+
+    const args = abiItem.inputs.map(input => {
+        if (input.type.startsWith('uint') || input.type.startsWith('int')) return BigInt(quantity);
+        if (input.type === 'address') return wallet;
+        if (input.type === 'bool') return false;
+        if (input.type === 'bytes') return '0x';
+        if (input.type === 'bytes32[]') return proof;
+        if (input.type.endsWith('[]')) return [];
+        throw new Error(`Cannot fill parameter of type ${input.type} in ${signature}`);
+    });
+
+    return {
+        to: to as `0x${string}`,
+        abi: [abiItem],
+        functionName: abiItem.name,
+        args,
+        value,
+    };
+}
+
+/**
+ * Build a call to any function from typed command-line values ({qty}/{me} filled from the context)
+ */
+export function buildArgsCall(
+    to: string,
+    fn: AbiFunction,
+    values: string[],
+    context: ArgContext,
+    value: bigint
+): MintCall {
+    return {
+        to: to as `0x${string}`,
+        abi: [fn],
+        functionName: fn.name,
+        args: parseAbiArgs(fn, values, context),
+        value: fn.stateMutability === 'payable' ? value : BigInt(0),
+    };
 }
 
 /**
@@ -41,34 +572,141 @@ export interface PlatformModule {
     name: string;
 
     /**
-     * Detect if the contract at the given address belongs to this platform
-     * @returns true if this module should handle the contract
+     * Score how likely the contract at the given address belongs to this platform
+     * @param proxy Resolved proxy, when the address delegates to an implementation
+     * @returns confidence (0-1) with the evidence behind it
      */
-    detect(address: string, chainId: number): Promise<boolean>;
+    detect(address: string, chainId: number, proxy?: ProxyInfo): Promise<PlatformDetection>;
 
     /**
      * Analyze the contract and return platform-specific info
      */
-    analyze(address: string, chainId: number): Promise<PlatformContractInfo>;
+    analyze(address: string, chainId: number, options?: AnalyzeOptions): Promise<PlatformContractInfo>;
+
+    /**
+     * Build the exact mint call (target, ABI, args, value) for a quantity and receiving wallet
+     */
+    buildMintCall(info: PlatformContractInfo, quantity: number, wallet: string): Promise<MintCall>;
+
+    /**
+     * Price a quantity for the selected stage, itemised
+     */
+    quote(info: PlatformContractInfo, quantity: number, options?: QuoteOptions): Promise<PriceQuote>;
+
+    /**
+     * Refund owed to a wallet given what it paid (modules whose sales rebate overpayment)
+     */
+    refundStatus?(info: PlatformContractInfo, wallet: string, minted: MintRecord): Promise<RefundStatus>;
+
+    /**
+     * Build the call that claims a wallet's refund, sent from that wallet
+     */
+    buildRefundCall?(info: PlatformContractInfo, wallet: string): Promise<MintCall>;
+
+    /**
+     * Leaf encoding of a stage's allowlist (the wallet address alone when not implemented)
+     * @param mintParams Stage parameters the leaf commits to that aren't readable on-chain (SeaDrop)
+     */
+    allowlistEncoding?(stage: MintStage, mintParams?: Record<string, string | number | boolean>): AllowlistEncoding;
+}
+
+/**
+ * A registered module and where it stands in detection
+ */
+export interface RegisteredPlatform {
+    id: string;
+    name: string;
+    // Default place in detection: lower runs first and wins ties
+    priority: number;
+    enabled: boolean;
 }
 
 /**
  * Platform Manager - Routes contract analysis to the correct module
  */
 export class PlatformManager {
-    private modules: PlatformModule[] = [];
+    // Module id (lowercase name) -> module, so registering twice replaces rather than duplicates
+    private modules = new Map<string, { module: PlatformModule; priority: number }>();
     private chainId: number;
+    // chainId:address -> last detection report
+    private detections = new Map<string, DetectionReport>();
 
     constructor(chainId: number = 1) {
         this.chainId = chainId;
     }
 
     /**
-     * Register a platform module
+     * Register a platform module. Registering a name again replaces the earlier module.
+     * @param priority Default detection order (lower first); appended after the others when omitted
+     */
+    registerModule(module: PlatformModule, priority?: number): void {
+        const id = module.name.toLowerCase();
+        const existing = this.modules.get(id);
+        const last = Math.max(0, ...[...this.modules.values()].map(entry => entry.priority));
+
+        const entry = { module, priority: priority ?? existing?.priority ?? last + 10 };
+        this.modules.set(id, entry);
+
+        // Cached verdicts stay valid when a module is only re-registered
+        if (!existing || existing.priority !== entry.priority) {
+            this.detections.clear();
+        }
+        if (!existing) console.log(`📦 Registered platform module: ${module.name}`);
+    }
+
+    /**
+     * Every registered module in detection order, disabled ones last.
+     * The user's saved order comes first, then the rest by priority.
+     */
+    listPlatforms(): RegisteredPlatform[] {
+        const { disabled, order } = getPlatformSettings();
+        const position = (id: string) => order.includes(id) ? order.indexOf(id) : order.length;
+
+        return [...this.modules.entries()]
+            .map(([id, { module, priority }]) => ({ id, name: module.name, priority, enabled: !disabled.includes(id) }))
+            .sort((a, b) => Number(b.enabled) - Number(a.enabled) || position(a.id) - position(b.id) || a.priority - b.priority);
+    }
+
+    /**
+     * Enable or disable a module for detection (persisted). Forcing it with --platform still works.
+     */
+    enablePlatform(name: string, enabled: boolean): RegisteredPlatform {
+        const platform = this.findPlatform(name);
+        setPlatformEnabled(platform.id, enabled);
+        this.detections.clear();
+        return { ...platform, enabled };
+    }
+
+    /**
+     * Try these modules first, in this order (persisted); an empty list restores the priorities
+     */
+    orderPlatforms(names: string[]): void {
+        setPlatformOrder(names.map(name => this.findPlatform(name).id));
+        this.detections.clear();
+    }
+
+    private findPlatform(name: string): RegisteredPlatform {
+        const platform = this.listPlatforms().find(p => p.id === name.toLowerCase());
+        if (!platform) {
+            throw new Error(`Unknown platform "${name}". Registered: ${this.listPlatforms().map(p => p.id).join(', ')}`);
+        }
+        return platform;
+    }
+
+    /**
+     * Module that produced (or should handle) a platform id
+     */
+    getModule(platform: string): PlatformModule | undefined {
+        return this.modules.get(platform.toLowerCase())?.module;
+    }
+
+    /**
+     * Remove a module from detection and lookups
      */
-    registerModule(module: PlatformModule): void {
-        this.modules.push(module);
-        console.log(`📦 Registered platform module: ${module.name}`);
+    unregisterModule(name: string): boolean {
+        const removed = this.modules.delete(name.toLowerCase());
+        if (removed) this.detections.clear();
+        return removed;
     }
 
     /**
@@ -81,54 +719,270 @@ export class PlatformManager {
     /**
      * Analyze a contract, optionally forcing a specific platform
      * @param address Contract address
-     * @param forcePlatform Force a specific platform module (bypasses detection)
+     * @param forcePlatform Any registered module name, or 'generic' (bypasses detection)
+     * @param options Instance/token selection forwarded to the module
      */
     async analyze(
         address: string,
-        forcePlatform?: 'nfts2me' | 'opensea' | 'magiceden' | 'generic'
+        forcePlatform?: string,
+        options: AnalyzeOptions = {}
     ): Promise<PlatformContractInfo> {
 
+        if (forcePlatform?.toLowerCase() === 'generic') {
+            console.log(`🎯 Using forced platform: generic`);
+            return this.annotate(await this.genericAnalyze(address, options.wallet), { ...options, proxy: await this.findProxy(address) });
+        }
+
         // If platform is forced, find that specific module
-        if (forcePlatform && forcePlatform !== 'generic') {
-            const forcedModule = this.modules.find(
-                m => m.name.toLowerCase() === forcePlatform.toLowerCase()
-            );
+        if (forcePlatform) {
+            const forcedModule = this.getModule(forcePlatform);
 
             if (forcedModule) {
                 console.log(`🎯 Using forced platform: ${forcedModule.name}`);
-                return await forcedModule.analyze(address, this.chainId);
+                const proxy = this.detections.get(this.detectionKey(address))?.proxy ?? await this.findProxy(address);
+                const moduleOptions: AnalyzeOptions = { ...options, proxy };
+                return await this.annotate(await forcedModule.analyze(address, this.chainId, moduleOptions), moduleOptions);
             } else {
-                console.warn(`⚠️ Platform "${forcePlatform}" not found, falling back to detection`);
+                console.warn(`⚠️ Platform "${forcePlatform}" not found (registered: ${[...this.modules.keys()].join(', ')}), falling back to detection`);
             }
         }
 
-        // Auto-detect: try each module
-        for (const module of this.modules) {
+        const report = await this.detect(address);
+        const moduleOptions: AnalyzeOptions = { ...options, proxy: report.proxy };
+
+        const module = report.best ? this.getModule(report.best) : undefined;
+        if (module) {
+            console.log(`✅ Detected platform: ${module.name}`);
+            return await this.annotate(await module.analyze(address, this.chainId, moduleOptions), moduleOptions);
+        }
+
+        // No platform matched - return generic fallback
+        console.log(`ℹ️ No specific platform detected, using generic analyzer`);
+        return this.annotate(await this.genericAnalyze(address, options.wallet), moduleOptions);
+    }
+
+    /**
+     * Run every enabled module's detection concurrently and rank the verdicts. The best match is the
+     * highest confidence at or above MIN_DETECTION_CONFIDENCE, ties going to the detection order.
+     * Reports are cached per chain and address; pass refresh to detect again.
+     */
+    async detect(address: string, refresh: boolean = false): Promise<DetectionReport> {
+        const key = this.detectionKey(address);
+        const cached = this.detections.get(key);
+        if (cached && !refresh) return cached;
+
+        // Resolve proxies first so detection and analysis can look at the implementation
+        const proxy = await this.findProxy(address);
+
+        const modules = this.listPlatforms().filter(p => p.enabled).map(p => this.getModule(p.id)!);
+        const results = await Promise.all(modules.map(async module => {
             try {
-                const isMatch = await module.detect(address, this.chainId);
-                if (isMatch) {
-                    console.log(`✅ Detected platform: ${module.name}`);
-                    return await module.analyze(address, this.chainId);
-                }
+                return { platform: module.name, ...await module.detect(address, this.chainId, proxy) };
             } catch (e) {
-                // Module detection failed, continue to next
-                console.debug(`Module ${module.name} detection failed:`, e);
+                return { platform: module.name, confidence: 0, evidence: [`Detection failed: ${e instanceof Error ? e.message : e}`] };
             }
+        }));
+
+        // Array.prototype.sort is stable, so equal scores keep detection order
+        results.sort((a, b) => b.confidence - a.confidence);
+        const best = results.length > 0 && results[0].confidence >= MIN_DETECTION_CONFIDENCE ? results[0].platform : undefined;
+
+        const report: DetectionReport = { address, chainId: this.chainId, proxy, results, best, detectedAt: Date.now() };
+        this.detections.set(key, report);
+        return report;
+    }
+
+    private detectionKey(address: string): string {
+        return `${this.chainId}:${address.toLowerCase()}`;
+    }
+
+    private async findProxy(address: string): Promise<ProxyInfo | undefined> {
+        const proxy = await resolveProxy(this.createClient(), address as `0x${string}`).catch(() => undefined);
+        if (proxy) {
+            console.log(`📦 ${PROXY_LABELS[proxy.type]} detected, implementation: ${proxy.implementation}`);
         }
+        return proxy;
+    }
 
-        // No platform matched - return generic fallback
-        console.log(`ℹ️ No specific platform detected, using generic analyzer`);
-        return this.genericAnalyze(address);
+    /**
+     * Public client for the manager's own reads (proxy resolution, bytecode scans)
+     */
+    private createClient(): PublicClient {
+        return createPublicClient({
+            chain: getChainById(this.chainId),
+            transport: getProviderTransport(this.chainId)
+        });
+    }
+
+    /**
+     * Attach the resolved proxy, the allowlist status when the module didn't set it, and the
+     * bytecode's mint candidates when asked to explain and the module didn't scan itself
+     */
+    private async annotate(info: PlatformContractInfo, options: AnalyzeOptions): Promise<PlatformContractInfo> {
+        info.proxy = info.proxy ?? options.proxy;
+        if (info.requiresAllowlist === undefined) {
+            Object.assign(info, info.stages?.length
+                ? stageAllowlistStatus(info.stages)
+                : await this.getterAllowlistStatus(info));
+        }
+        if (options.wallet) {
+            info.credentials = this.withStoredProof(info, options.wallet).credentials;
+        }
+        if (!options.explain || info.selectorReport) return info;
+
+        info.selectorReport = await findMintCandidates(this.createClient(), info.address as `0x${string}`).catch(() => undefined);
+        return info;
+    }
+
+    /**
+     * Allowlist status of a module without stages, from the sale-state getters. The module's
+     * own isActive decides whether the public sale is open.
+     */
+    private async getterAllowlistStatus(info: PlatformContractInfo): Promise<Pick<PlatformContractInfo, 'requiresAllowlist' | 'phase' | 'merkleRoot'>> {
+        const state = await readSaleState(this.createClient(), info.address as `0x${string}`).catch(() => undefined);
+        if (!state) return { requiresAllowlist: false, phase: info.isActive ? 'Public' : 'Closed' };
+
+        const allowlistOnly = !info.isActive && state.requiresAllowlist;
+        return {
+            requiresAllowlist: allowlistOnly,
+            phase: allowlistOnly ? 'Allowlist' : info.isActive ? 'Public' : state.phaseLabel,
+            merkleRoot: state.merkleRoot,
+        };
+    }
+
+    /**
+     * Build the mint call for a previously analyzed contract using its platform module
+     */
+    async buildMintCall(info: PlatformContractInfo, quantity: number, wallet: string): Promise<MintCall> {
+        const module = this.getModule(info.platform);
+        info = this.withStoredProof(info, wallet);
+
+        if (!module) {
+            // Generic contracts: fill the detected signature with quantity/wallet/proof
+            return buildSignatureCall(info.address, info.mintFunction, quantity, wallet, info.getTotalValue(quantity), info.credentials?.proof);
+        }
+
+        return await module.buildMintCall(info, quantity, wallet);
+    }
+
+    /**
+     * Price a quantity with the contract's platform module (linear per-token price for generic contracts)
+     */
+    async quote(info: PlatformContractInfo, quantity: number, options: QuoteOptions = {}): Promise<PriceQuote> {
+        const module = this.getModule(info.platform);
+        info = this.withStoredProof(info, options.wallet);
+
+        if (!module) {
+            return linearQuote(info, quantity);
+        }
+
+        return await module.quote(info, quantity, options);
+    }
+
+    /**
+     * The contract with the wallet's stored allowlist proof attached, unless credentials were
+     * chosen with 'contract stage'/'contract proof'. Only proofs for open stages (or stages
+     * whose schedule is off-chain) are used.
+     */
+    private withStoredProof(info: PlatformContractInfo, wallet?: string): PlatformContractInfo {
+        if (info.credentials || !wallet) return info;
+
+        const open = info.stages?.filter(stage => stage.isActive || stage.offChain).map(stage => stage.id);
+        const stored = getStoredProof(info.chainId, info.address, wallet, open);
+        return stored ? { ...info, credentials: stored } : info;
+    }
+
+    /**
+     * Stage an allowlist is imported for: the named one, else the open Merkle stage, else
+     * the first Merkle stage. Contracts without stages get one from their Merkle root getter.
+     */
+    allowlistStage(info: PlatformContractInfo, stageId?: string): MintStage {
+        if (!info.stages?.length) {
+            if (stageId && stageId !== 'allowlist') throw new Error(`${info.name} has no stages - omit the stage`);
+            return { id: 'allowlist', name: 'Allowlist', startTime: 0, endTime: 0, merkleRoot: info.merkleRoot, isActive: !!info.requiresAllowlist };
+        }
+
+        if (stageId) {
+            const stage = info.stages.find(s => s.id.toLowerCase() === stageId.toLowerCase());
+            if (!stage) throw new Error(`Unknown stage "${stageId}" (stages: ${info.stages.map(s => s.id).join(', ')})`);
+            return stage;
+        }
+
+        const merkle = info.stages.filter(stage => stage.merkleRoot);
+        const stage = merkle.find(s => s.isActive) || merkle[0];
+        if (!stage) throw new Error(`${info.name} has no Merkle allowlist stage`);
+        return stage;
+    }
+
+    /**
+     * Leaf encoding for a stage's allowlist, from the contract's platform module
+     */
+    allowlistEncoding(info: PlatformContractInfo, stage: MintStage, mintParams?: Record<string, string | number | boolean>): AllowlistEncoding {
+        const module = this.getModule(info.platform);
+        return module?.allowlistEncoding?.(stage, mintParams) ?? packedAddressAllowlist(stage.id);
+    }
+
+    /**
+     * Refund owed to a wallet, via the contract's platform module
+     */
+    async refundStatus(info: PlatformContractInfo, wallet: string, minted: MintRecord): Promise<RefundStatus> {
+        const module = this.getModule(info.platform);
+
+        if (!module?.refundStatus || !info.refund) {
+            throw new Error(`${info.name} does not support refunds`);
+        }
+
+        return await module.refundStatus(info, wallet, minted);
+    }
+
+    /**
+     * Build the refund claim call via the contract's platform module
+     */
+    async buildRefundCall(info: PlatformContractInfo, wallet: string): Promise<MintCall> {
+        const module = this.getModule(info.platform);
+
+        if (!module?.buildRefundCall || !info.refund) {
+            throw new Error(`${info.name} does not support refunds`);
+        }
+
+        return await module.buildRefundCall(info, wallet);
+    }
+
+    /**
+     * What a sent mint did, from its receipt: the tokens the contract minted to the wallet and
+     * the value paid. Undefined while the transaction is pending or unknown to the RPC.
+     */
+    async readMintReceipt(txHash: `0x${string}`, contract: string, wallet: string): Promise<(MintRecord & { success: boolean }) | undefined> {
+        const client = this.createClient();
+        const receipt = await client.getTransactionReceipt({ hash: txHash }).catch(() => undefined);
+        if (!receipt) return undefined;
+        if (receipt.status !== 'success') return { success: false, quantity: 0, paid: BigInt(0) };
+
+        const tx = await client.getTransaction({ hash: txHash });
+        const logs = parseEventLogs({
+            abi: TRANSFER_EVENTS_ABI,
+            logs: receipt.logs.filter(log => log.address.toLowerCase() === contract.toLowerCase()),
+        });
+
+        let quantity = 0;
+        for (const log of logs) {
+            if (log.args.from !== zeroAddress || log.args.to.toLowerCase() !== wallet.toLowerCase()) continue;
+            if (log.eventName === 'Transfer') quantity += 1;
+            else if (log.eventName === 'TransferSingle') quantity += Number(log.args.value);
+            else quantity += log.args.values.reduce((sum, value) => sum + Number(value), 0);
+        }
+
+        return { success: true, quantity, paid: tx.value };
     }
 
     /**
      * Generic fallback analysis (similar to ViemContractAnalyzer)
      */
-    private async genericAnalyze(address: string): Promise<PlatformContractInfo> {
+    private async genericAnalyze(address: string, wallet?: string): Promise<PlatformContractInfo> {
         // Import and use the existing ViemContractAnalyzer as fallback
         const { ViemContractAnalyzer } = await import('../ViemContractAnalyzer');
         const analyzer = new ViemContractAnalyzer(this.chainId);
-        const info = await analyzer.analyze(address);
+        const info = await analyzer.analyze(address, undefined, wallet);
 
         return {
             address: info.address,
@@ -142,9 +996,22 @@ export class PlatformManager {
             creatorFee: BigInt(0),
             getTotalValue: (quantity: number) => info.mintPrice * BigInt(quantity),
             isActive: info.isActive,
+            requiresAllowlist: info.requiresAllowlist,
+            phase: info.phase,
+            merkleRoot: info.merkleRoot,
             totalSupply: BigInt(info.currentSupply || 0),
             maxSupply: BigInt(info.maxSupply || 0),
             maxPerWallet: info.maxPerWallet,
+            selectorReport: info.selectorReport,
+            mintProbes: info.mintProbes,
+            priceGetters: info.priceGetters,
+            discoveredPrice: info.discoveredPrice,
+            discoveryFailure: info.discoveryFailure,
+            maxPerTx: info.maxPerTx,
+            salePhase: info.salePhase,
+            saleStart: info.saleStart,
+            saleEnd: info.saleEnd,
+            saleSources: info.saleSources,
         };
     }
 
@@ -152,7 +1019,7 @@ export class PlatformManager {
      * Get list of registered platform names
      */
     getRegisteredPlatforms(): string[] {
-        return this.modules.map(m => m.name);
+        return this.listPlatforms().map(p => p.name);
     }
 }
 
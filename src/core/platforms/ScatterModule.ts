@@ -1,6 +1,7 @@
-import { createPublicClient, http, parseAbi, type Chain, keccak256, toBytes } from 'viem';
+import { createPublicClient, http, parseAbi, type Chain, type PublicClient, keccak256, toBytes, zeroAddress } from 'viem';
 import { mainnet, sepolia, goerli, polygon, arbitrum, optimism, base } from 'viem/chains';
-import type { PlatformModule, PlatformContractInfo } from './PlatformManager';
+import { getProviderTransport } from '../../config/transport';
+import { readPaymentToken, detectionFrom, detectionSignal, type PlatformDetection, type PlatformModule, type PlatformContractInfo, type MintCall, type MintStage, type AnalyzeOptions, type PriceQuote, type QuoteOptions, type PaymentToken } from './PlatformManager';
 
 // Chain lookup
 const CHAINS: Record<number, Chain> = {
@@ -24,25 +25,69 @@ const ARCHETYPE_ABI = parseAbi([
     // Invites mapping getter (for checking if list exists)
     'function invites(bytes32 key) view returns (uint128 price, uint128 reservePrice, uint64 delta, uint32 start, uint32 end, uint32 limit, uint32 maxSupply, uint32 interval, uint32 unitSize, address tokenAddress, bool isBlacklist)',
 
+    // Mint entrypoint
+    'function mint((bytes32 key, bytes32[] proof) auth, uint256 quantity, address affiliate, bytes signature) payable',
+
     // Basic token info
     'function name() view returns (string)',
     'function totalSupply() view returns (uint256)',
     'function config() view returns (string baseUri, address affiliateSigner, uint32 maxSupply, uint32 maxBatchSize, uint16 affiliateFee, uint16 affiliateDiscount, uint16 defaultRoyalty)',
+
+    // Emitted when the owner sets an invite list - the way to enumerate keys
+    'event Invited(bytes32 indexed key, bytes32 indexed cid)',
 ] as const);
 
+// Public invites use the zero key; gated lists use their Merkle root as the key
+const ZERO_KEY = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+// Keys tried even when the Invited logs cannot be read
+const KNOWN_LISTS: Record<string, string> = {
+    [ZERO_KEY]: 'Public',
+    [keccak256(toBytes('public'))]: 'public',
+};
+
+// Archetype's "no limit" sentinel
+const UNLIMITED = 4294967295;
+
+/**
+ * Invite as stored by Archetype
+ */
+interface Invite {
+    key: `0x${string}`;
+    price: bigint;
+    reservePrice: bigint;
+    delta: bigint;
+    start: number;
+    end: number;
+    limit: number;
+    maxSupply: number;
+    interval: number;
+    tokenAddress: `0x${string}`;
+    isBlacklist: boolean;
+}
+
+/**
+ * A --list value is either the raw bytes32 key or a list name, hashed like keccak256("public")
+ */
+function resolveInviteKey(list: string): `0x${string}` {
+    if (/^0x[0-9a-fA-F]{64}$/.test(list)) return list.toLowerCase() as `0x${string}`;
+    return keccak256(toBytes(list));
+}
+
 /**
  * Scatter.art / Archetype Module
  * 
  * Handles ArchetypeErc721a contracts used by Scatter.art.
- * These use invite-based minting with computed prices.
+ * These use invite-based minting with computed prices: each invite list has its own
+ * price (optionally moving by delta every interval toward a reserve), limit and window.
  */
 export class ScatterModule implements PlatformModule {
     name = 'Scatter';
 
     /**
-     * Detect if contract is an Archetype/Scatter collection
+     * Score whether the contract is an Archetype/Scatter collection
      */
-    async detect(address: string, chainId: number): Promise<boolean> {
+    async detect(address: string, chainId: number): Promise<PlatformDetection> {
         const chain = CHAINS[chainId] || mainnet;
         const publicClient = createPublicClient({
             chain,
@@ -51,29 +96,23 @@ export class ScatterModule implements PlatformModule {
 
         const contractAddress = address as `0x${string}`;
 
-        try {
-            // Check for platform() function which returns the Archetype platform address
-            const platform = await publicClient.readContract({
-                address: contractAddress,
-                abi: ARCHETYPE_ABI,
-                functionName: 'platform',
-            });
+        // platform() returns the Archetype platform address
+        const platform = await publicClient.readContract({
+            address: contractAddress,
+            abi: ARCHETYPE_ABI,
+            functionName: 'platform',
+        }).catch(() => undefined);
 
-            // Verify it's an Archetype platform (or just that it has this function)
-            if (platform) {
-                console.log(`✅ Detected Archetype contract, platform: ${platform}`);
-                return true;
-            }
-            return false;
-        } catch {
-            return false;
-        }
+        const found = !!platform && platform !== zeroAddress;
+        return detectionFrom([
+            detectionSignal(found ? `platform() returns ${platform}` : 'platform() returns an address', found, 0.7),
+        ]);
     }
 
     /**
      * Analyze Scatter/Archetype contract
      */
-    async analyze(address: string, chainId: number): Promise<PlatformContractInfo> {
+    async analyze(address: string, chainId: number, options: AnalyzeOptions = {}): Promise<PlatformContractInfo> {
         const chain = CHAINS[chainId] || mainnet;
         const publicClient = createPublicClient({
             chain,
@@ -106,66 +145,70 @@ export class ScatterModule implements PlatformModule {
             maxSupply = BigInt(config[2] || 0); // maxSupply is 3rd element
         }
 
-        // Try to get price for quantity 1 using "public" list key
-        // Common keys: bytes32(0), keccak256("public"), keccak256("default")
-        const publicKey = '0x0000000000000000000000000000000000000000000000000000000000000000' as `0x${string}`;
-
-        let mintPrice = BigInt(0);
-        let isActive = false;
+        // Every list we know of: the requested one, the default keys, and any the owner announced
+        const requestedKey = options.list ? resolveInviteKey(options.list) : undefined;
+        const keys = new Set<`0x${string}`>(Object.keys(KNOWN_LISTS) as `0x${string}`[]);
+        if (requestedKey) keys.add(requestedKey);
+        for (const key of await this.readInvitedKeys(publicClient, contractAddress)) keys.add(key);
 
-        // Try to compute price for 1 token
-        try {
-            mintPrice = await publicClient.readContract({
-                address: contractAddress,
-                abi: ARCHETYPE_ABI,
-                functionName: 'computePrice',
-                args: [publicKey, BigInt(1), false], // 1 quantity, no affiliate
-            }) as bigint;
-
-            console.log(`📊 Computed price for key 0x00...00: ${mintPrice}`);
-        } catch (e) {
-            console.warn("Failed to compute price for default key, trying others...");
-
-            // Try "public" key
-            const publicKeyHash = keccak256(toBytes('public'));
-            try {
-                mintPrice = await publicClient.readContract({
-                    address: contractAddress,
-                    abi: ARCHETYPE_ABI,
-                    functionName: 'computePrice',
-                    args: [publicKeyHash, BigInt(1), false],
-                }) as bigint;
-                console.log(`📊 Computed price for 'public' key: ${mintPrice}`);
-            } catch {
-                console.warn("Could not compute price for any known key");
-            }
+        const invites: Invite[] = [];
+        for (const key of keys) {
+            const invite = await this.readInvite(publicClient, contractAddress, key);
+            if (invite) invites.push(invite);
         }
 
-        // Check if invite is active by reading invites mapping
-        try {
-            const invite = await publicClient.readContract({
-                address: contractAddress,
-                abi: ARCHETYPE_ABI,
-                functionName: 'invites',
-                args: [publicKey],
-            }) as any;
+        const now = Math.floor(Date.now() / 1000);
+        const isOpen = (invite: Invite) => invite.start <= now && (invite.end === 0 || invite.end > now);
+
+        if (requestedKey && !invites.some(invite => invite.key === requestedKey)) {
+            throw new Error(`Invite list ${options.list} is not set on ${contractAddress}`);
+        }
 
-            // Check start/end times
-            const now = Math.floor(Date.now() / 1000);
-            const start = Number(invite[3] || 0); // start is 4th element
-            const end = Number(invite[4] || 0);   // end is 5th element
+        // Selected list: --list, else an open public list, else the first public list
+        const isPublic = (invite: Invite) => invite.key in KNOWN_LISTS;
+        const selected = invites.find(invite => invite.key === requestedKey)
+            || invites.find(invite => isPublic(invite) && isOpen(invite))
+            || invites.find(isPublic)
+            || invites[0];
+        const inviteKey = selected?.key || ZERO_KEY;
 
-            isActive = start <= now && (end === 0 || end > now);
+        const stages: MintStage[] = invites.map(invite => ({
+            id: `list:${invite.key}`,
+            name: KNOWN_LISTS[invite.key] || `List ${invite.key.slice(0, 10)}…`,
+            price: invite.price,
+            startTime: invite.start,
+            endTime: invite.end,
+            maxPerWallet: invite.limit > 0 && invite.limit < UNLIMITED ? BigInt(invite.limit) : undefined,
+            currency: invite.tokenAddress !== zeroAddress ? invite.tokenAddress : undefined,
+            gate: invite.isBlacklist ? 'Blocklist' : invite.key !== ZERO_KEY ? `Merkle ${invite.key.slice(0, 10)}…` : undefined,
+            // Allowlist keys are the list's Merkle root
+            merkleRoot: !invite.isBlacklist && !(invite.key in KNOWN_LISTS) ? invite.key : undefined,
+            pricing: invite.delta > BigInt(0)
+                ? { reservePrice: invite.reservePrice, delta: invite.delta, interval: invite.interval }
+                : undefined,
+            isActive: isOpen(invite),
+        }));
 
-            // If we didn't get price from computePrice, get it from invite
-            if (mintPrice === BigInt(0)) {
-                mintPrice = BigInt(invite[0] || 0); // price is 1st element
-            }
+        // computePrice applies the invite's time-based pricing; fall back to the stored price
+        let mintPrice = await publicClient.readContract({
+            address: contractAddress,
+            abi: ARCHETYPE_ABI,
+            functionName: 'computePrice',
+            args: [inviteKey, BigInt(1), false], // 1 quantity, no affiliate
+        }).catch(() => selected?.price ?? BigInt(0));
 
-            console.log(`📊 Invite data: price=${invite[0]}, start=${start}, end=${end}, isActive=${isActive}`);
-        } catch (e) {
-            console.warn("Failed to read invites:", e);
+        // Invites with a tokenAddress are paid in that ERC20 instead of ETH; kept per list so
+        // 'contract stage list:<key>' can switch between ETH and token lists
+        const listPayments: Record<string, PaymentToken> = {};
+        for (const invite of invites) {
+            if (invite.tokenAddress === zeroAddress) continue;
+            const price = invite === selected ? mintPrice : invite.price;
+            listPayments[`list:${invite.key}`] = await readPaymentToken(publicClient, invite.tokenAddress, contractAddress, price);
         }
+        const payment = selected ? listPayments[`list:${selected.key}`] : undefined;
+        if (payment) mintPrice = BigInt(0);
+
+        console.log(`📊 Archetype: ${invites.length} invite list(s), selected ${inviteKey}, price=${mintPrice}`);
 
         // Archetype mint function signature
         // mint(Auth calldata auth, uint256 quantity, address affiliate, bytes calldata signature)
@@ -176,16 +219,163 @@ export class ScatterModule implements PlatformModule {
             address,
             name: name as string,
             chainId,
-            platform: 'scatter' as any, // Will need to add 'scatter' to type
+            platform: 'scatter',
             tokenStandard: 'ERC721',
             mintFunction,
             mintPrice,
             protocolFee: BigInt(0),
             creatorFee: BigInt(0),
             getTotalValue: (quantity: number) => mintPrice * BigInt(quantity),
-            isActive,
+            isActive: selected ? isOpen(selected) : false,
             totalSupply: totalSupply as bigint,
             maxSupply,
+            maxPerWallet: selected && selected.limit > 0 && selected.limit < UNLIMITED ? BigInt(selected.limit) : undefined,
+            inviteKey,
+            stages,
+            listPayments,
+            payment,
+        };
+    }
+
+    /**
+     * The contract priced for the list picked with 'contract stage list:<key>' (the one chosen
+     * at load otherwise): that list's key, and its ERC20 payment token or native price
+     */
+    private withSelectedList(info: PlatformContractInfo): PlatformContractInfo {
+        const stageId = info.credentials?.stage?.toLowerCase();
+        if (!stageId?.startsWith('list:') || stageId === `list:${info.inviteKey}`.toLowerCase()) return info;
+
+        const stage = info.stages?.find(s => s.id.toLowerCase() === stageId);
+        if (!stage) {
+            throw new Error(`Unknown Scatter list "${stageId}" (stages: ${info.stages?.map(s => s.id).join(', ')})`);
+        }
+
+        const payment = info.listPayments?.[stage.id];
+        const mintPrice = payment ? BigInt(0) : stage.price ?? BigInt(0);
+        return {
+            ...info,
+            inviteKey: stage.id.slice('list:'.length) as `0x${string}`,
+            mintPrice,
+            getTotalValue: (quantity: number) => mintPrice * BigInt(quantity),
+            payment,
         };
     }
+
+    /**
+     * Build the Archetype mint for the selected invite list with the imported Merkle proof.
+     * Value comes from computePrice so quantity-dependent pricing and affiliate discounts are respected.
+     */
+    async buildMintCall(info: PlatformContractInfo, quantity: number): Promise<MintCall> {
+        info = this.withSelectedList(info);
+        const contractAddress = info.address as `0x${string}`;
+        const key = info.inviteKey || ZERO_KEY;
+        const proof = info.credentials?.proof || [];
+
+        if (key !== ZERO_KEY && proof.length === 0) {
+            console.warn(`⚠️ Invite list ${key.slice(0, 10)}… is gated but no proof was imported`);
+        }
+
+        const affiliate = info.affiliate;
+        const quote = await this.quote(info, quantity);
+        const price = quote.basePrice - quote.affiliateDiscount;
+
+        return {
+            to: contractAddress,
+            abi: ARCHETYPE_ABI,
+            functionName: 'mint',
+            args: [{ key, proof }, BigInt(quantity), affiliate?.address || zeroAddress, affiliate?.signature || '0x'],
+            // ERC20 invites are pulled with transferFrom; the computed price is in token units
+            value: info.payment ? BigInt(0) : price,
+            payment: info.payment
+                ? { token: info.payment.address, spender: contractAddress, amount: price }
+                : undefined,
+        };
+    }
+
+    /**
+     * computePrice for the selected list; with an affiliate set, the discount is the
+     * difference between the plain and the affiliate price
+     */
+    async quote(info: PlatformContractInfo, quantity: number, options: QuoteOptions = {}): Promise<PriceQuote> {
+        const chain = CHAINS[info.chainId] || mainnet;
+        const publicClient = createPublicClient({
+            chain,
+            transport: getProviderTransport(info.chainId)
+        });
+
+        info = this.withSelectedList(info);
+        const key = info.inviteKey || ZERO_KEY;
+        const computePrice = (affiliateUsed: boolean) => publicClient.readContract({
+            address: info.address as `0x${string}`,
+            abi: ARCHETYPE_ABI,
+            functionName: 'computePrice',
+            args: [key, BigInt(quantity), affiliateUsed],
+            blockNumber: options.blockNumber,
+        });
+
+        const fallback = (info.payment ? info.payment.price : info.mintPrice) * BigInt(quantity);
+        const basePrice = await computePrice(false).catch(() => fallback);
+        const discounted = info.affiliate ? await computePrice(true).catch(() => basePrice) : basePrice;
+
+        return {
+            quantity,
+            basePrice,
+            protocolFee: BigInt(0),
+            creatorFee: BigInt(0),
+            affiliateDiscount: basePrice - discounted,
+            // ERC20 invites are pulled with transferFrom; the computed price is in token units
+            total: info.payment ? BigInt(0) : discounted,
+            payment: info.payment,
+        };
+    }
+
+    private async readInvitedKeys(publicClient: PublicClient, address: `0x${string}`): Promise<`0x${string}`[]> {
+        try {
+            const logs = await publicClient.getContractEvents({
+                address,
+                abi: ARCHETYPE_ABI,
+                eventName: 'Invited',
+                fromBlock: 'earliest',
+            });
+            return logs
+                .map(log => log.args.key)
+                .filter((key): key is `0x${string}` => key !== undefined);
+        } catch {
+            console.warn("Could not read Invited logs, checking known invite keys only");
+            return [];
+        }
+    }
+
+    /**
+     * Read an invite; null when the key was never set (all fields zero)
+     */
+    private async readInvite(publicClient: PublicClient, address: `0x${string}`, key: `0x${string}`): Promise<Invite | null> {
+        try {
+            const [price, reservePrice, delta, start, end, limit, maxSupply, interval, , tokenAddress, isBlacklist] =
+                await publicClient.readContract({
+                    address,
+                    abi: ARCHETYPE_ABI,
+                    functionName: 'invites',
+                    args: [key],
+                });
+
+            if (limit === 0 && price === BigInt(0) && start === 0 && maxSupply === 0) return null;
+
+            return {
+                key,
+                price,
+                reservePrice,
+                delta,
+                start,
+                end,
+                limit,
+                maxSupply,
+                interval,
+                tokenAddress,
+                isBlacklist,
+            };
+        } catch {
+            return null;
+        }
+    }
 }
@@ -1,7 +1,8 @@
-import { createPublicClient, parseAbi, type Chain } from 'viem';
+import { createPublicClient, encodeAbiParameters, keccak256, parseAbi, parseAbiParameters, zeroAddress, type Chain } from 'viem';
 import { getProviderTransport } from '../../config/transport';
 import { mainnet, sepolia, goerli, polygon, arbitrum, optimism, base } from 'viem/chains';
-import type { PlatformModule, PlatformContractInfo } from './PlatformManager';
+import { quoteFromCall, detectionFrom, detectionSignal, type PlatformDetection, type PlatformModule, type PlatformContractInfo, type MintCall, type MintStage, type PriceQuote, type AllowlistEncoding } from './PlatformManager';
+import type { ProxyInfo } from '../ProxyResolver';
 
 // Chain lookup
 const CHAINS: Record<number, Chain> = {
@@ -22,6 +23,9 @@ const SEADROP_ADDRESSES: Record<number, string> = {
     8453: '0x00005EA00Ac477B1030CE78506496e8C2dE24bf5',    // Base
 };
 
+// OpenSea's fee recipient, allowed on all OpenSea-hosted drops
+const OPENSEA_FEE_RECIPIENT = '0x0000a26b00c1F0DF003000390027140000fAa719';
+
 // Token contract ABI for SeaDrop detection
 const TOKEN_DETECTION_ABI = parseAbi([
     'function supportsInterface(bytes4 interfaceId) view returns (bool)',
@@ -37,10 +41,47 @@ const TOKEN_ABI = parseAbi([
 
 // SeaDrop singleton ABI
 const SEADROP_ABI = parseAbi([
+    'struct MintParams { uint256 mintPrice; uint256 maxTotalMintableByWallet; uint256 startTime; uint256 endTime; uint256 dropStageIndex; uint256 maxTokenSupplyForStage; uint256 feeBps; bool restrictFeeRecipients; }',
+    'struct TokenGatedMintParams { address allowedNftToken; uint256[] allowedNftTokenIds; }',
+    'struct TokenGatedDropStage { uint80 mintPrice; uint16 maxTotalMintableByWallet; uint48 startTime; uint48 endTime; uint8 dropStageIndex; uint32 maxTokenSupplyForStage; uint16 feeBps; bool restrictFeeRecipients; }',
+
+    // Stage configuration
     'function getPublicDrop(address tokenContract) view returns ((uint80 mintPrice, uint48 startTime, uint48 endTime, uint16 maxTotalMintableByWallet, uint16 feeBps, bool restrictFeeRecipients))',
+    'function getAllowedFeeRecipients(address nftContract) view returns (address[])',
+    'function getAllowListMerkleRoot(address nftContract) view returns (bytes32)',
+    'function getSigners(address nftContract) view returns (address[])',
+    'function getTokenGatedAllowedTokens(address nftContract) view returns (address[])',
+    'function getTokenGatedDrop(address nftContract, address allowedNftToken) view returns (TokenGatedDropStage)',
+
+    // Mint entrypoints
     'function mintPublic(address tokenContract, address feeRecipient, address minterIfNotPayer, uint256 quantity) payable',
+    'function mintAllowList(address nftContract, address feeRecipient, address minterIfNotPayer, uint256 quantity, MintParams mintParams, bytes32[] proof) payable',
+    'function mintSigned(address nftContract, address feeRecipient, address minterIfNotPayer, uint256 quantity, MintParams mintParams, uint256 salt, bytes signature) payable',
+    'function mintAllowedTokenHolder(address nftContract, address feeRecipient, address minterIfNotPayer, TokenGatedMintParams mintParams) payable',
 ] as const);
 
+const ZERO_ROOT = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+// Allowlist leaf: keccak256(abi.encode(minter, mintParams))
+const ALLOWLIST_LEAF = parseAbiParameters('address minter, (uint256 mintPrice, uint256 maxTotalMintableByWallet, uint256 startTime, uint256 endTime, uint256 dropStageIndex, uint256 maxTokenSupplyForStage, uint256 feeBps, bool restrictFeeRecipients) mintParams');
+
+/**
+ * Convert imported MintParams (JSON numbers/strings) into the struct SeaDrop expects
+ */
+function toMintParams(raw: Record<string, string | number | boolean>) {
+    const num = (key: string) => BigInt(raw[key] === undefined ? 0 : raw[key] as string | number);
+    return {
+        mintPrice: num('mintPrice'),
+        maxTotalMintableByWallet: num('maxTotalMintableByWallet'),
+        startTime: num('startTime'),
+        endTime: num('endTime'),
+        dropStageIndex: num('dropStageIndex'),
+        maxTokenSupplyForStage: num('maxTokenSupplyForStage'),
+        feeBps: num('feeBps'),
+        restrictFeeRecipients: Boolean(raw.restrictFeeRecipients),
+    };
+}
+
 // ERC721SeaDrop interface ID
 const ISEADROP_TOKEN_INTERFACE = '0x1890fe8e';
 
@@ -56,9 +97,9 @@ export class SeaDropModule implements PlatformModule {
     name = 'OpenSea';
 
     /**
-     * Detect if contract is a SeaDrop-compatible token
+     * Score whether the contract is a SeaDrop-compatible token
      */
-    async detect(address: string, chainId: number): Promise<boolean> {
+    async detect(address: string, chainId: number, proxy?: ProxyInfo): Promise<PlatformDetection> {
         const chain = CHAINS[chainId] || mainnet;
         const publicClient = createPublicClient({
             chain,
@@ -67,83 +108,34 @@ export class SeaDropModule implements PlatformModule {
 
         const contractAddress = address as `0x${string}`;
 
-        // Method 1: Check for ISeaDropTokenContractMetadata interface
-        try {
-            const supportsSeaDrop = await publicClient.readContract({
+        // Checked together: ISeaDropTokenContractMetadata interface, registered SeaDrop contracts,
+        // and the mintSeaDrop (0x64869dad) / getAllowedSeaDrop (0x4f2c436d) selectors in the bytecode -
+        // the implementation's for ERC721SeaDropCloneable proxies
+        const [supportsSeaDrop, seaDrops, bytecode] = await Promise.all([
+            publicClient.readContract({
                 address: contractAddress,
                 abi: TOKEN_DETECTION_ABI,
                 functionName: 'supportsInterface',
                 args: [ISEADROP_TOKEN_INTERFACE as `0x${string}`],
-            });
-
-            if (supportsSeaDrop) {
-                console.log(`✅ Detected SeaDrop via supportsInterface`);
-                return true;
-            }
-        } catch { }
-
-        // Method 2: Check if getSeaDrops() exists and returns addresses
-        try {
-            const seaDrops = await publicClient.readContract({
+            }).catch(() => false),
+            publicClient.readContract({
                 address: contractAddress,
                 abi: TOKEN_DETECTION_ABI,
                 functionName: 'getSeaDrops',
-            });
-
-            if (Array.isArray(seaDrops) && seaDrops.length > 0) {
-                console.log(`✅ Detected SeaDrop via getSeaDrops()`);
-                return true;
-            }
-        } catch { }
-
-        // Method 3: Check for mintSeaDrop function (unique to SeaDrop contracts)
-        // This works for ERC721SeaDropCloneable proxies
-        try {
-            // Check bytecode for SeaDrop function selectors
-            const bytecode = await publicClient.getCode({ address: contractAddress });
-
-
-            if (bytecode) {
-                // Check for mintSeaDrop selector (0x64869dad) in bytecode
-                // or getAllowedSeaDrop selector (0x4f2c436d)
-                const MINT_SEADROP_SELECTOR = '64869dad';
-                const GET_ALLOWED_SEADROP_SELECTOR = '4f2c436d';
-
-                const bytecodeStr = bytecode.toLowerCase();
-                if (bytecodeStr.includes(MINT_SEADROP_SELECTOR) ||
-                    bytecodeStr.includes(GET_ALLOWED_SEADROP_SELECTOR)) {
-                    console.log(`✅ Detected SeaDrop via bytecode selector`);
-                    return true;
-                }
-            }
-        } catch { }
+            }).catch(() => []),
+            publicClient.getCode({ address: proxy?.implementation ?? contractAddress }).catch(() => undefined),
+        ]);
 
-        // Method 4: For minimal proxies, check the implementation
-        try {
-            const bytecode = await publicClient.getCode({ address: contractAddress });
-            if (bytecode && bytecode.length < 100) {
-                // This is likely a minimal proxy (EIP-1167)
-                // Check if it delegates to a SeaDrop implementation
-                // Minimal proxy bytecode: 363d3d373d3d3d363d73<address>5af43d82803e903d91602b57fd5bf3
-                const match = bytecode.toLowerCase().match(/363d3d373d3d3d363d73([a-f0-9]{40})5af43d82803e903d91602b57fd5bf3/);
-                if (match) {
-                    const implementationAddress = `0x${match[1]}` as `0x${string}`;
-                    console.log(`📦 Minimal Proxy detected, checking implementation: ${implementationAddress}`);
-
-                    // Check if implementation has SeaDrop functions
-                    const implBytecode = await publicClient.getCode({ address: implementationAddress });
-                    if (implBytecode) {
-                        const implStr = implBytecode.toLowerCase();
-                        if (implStr.includes('64869dad') || implStr.includes('4f2c436d')) {
-                            console.log(`✅ Detected SeaDrop via proxy implementation`);
-                            return true;
-                        }
-                    }
-                }
-            }
-        } catch { }
+        const MINT_SEADROP_SELECTOR = '64869dad';
+        const GET_ALLOWED_SEADROP_SELECTOR = '4f2c436d';
+        const bytecodeStr = bytecode?.toLowerCase() || '';
+        const hasSelectors = bytecodeStr.includes(MINT_SEADROP_SELECTOR) || bytecodeStr.includes(GET_ALLOWED_SEADROP_SELECTOR);
 
-        return false;
+        return detectionFrom([
+            detectionSignal('supportsInterface(ISeaDropTokenContractMetadata)', !!supportsSeaDrop, 0.95),
+            detectionSignal(`getSeaDrops() lists ${seaDrops.length} SeaDrop contract(s)`, seaDrops.length > 0, 0.9),
+            detectionSignal(`SeaDrop selectors in ${proxy ? 'implementation ' : ''}bytecode`, hasSelectors, 0.8),
+        ]);
     }
 
     /**
@@ -184,6 +176,9 @@ export class SeaDropModule implements PlatformModule {
         let mintPrice = BigInt(0);
         let isActive = false;
         let maxPerWallet = BigInt(0);
+        let restrictFeeRecipients = false;
+        const stages: MintStage[] = [];
+        const now = Math.floor(Date.now() / 1000);
 
         try {
             const publicDrop = await publicClient.readContract({
@@ -195,13 +190,23 @@ export class SeaDropModule implements PlatformModule {
 
             mintPrice = BigInt(publicDrop.mintPrice);
             maxPerWallet = BigInt(publicDrop.maxTotalMintableByWallet);
+            restrictFeeRecipients = publicDrop.restrictFeeRecipients;
 
             // Check if currently active (startTime <= now <= endTime)
-            const now = BigInt(Math.floor(Date.now() / 1000));
-            const startTime = BigInt(publicDrop.startTime);
-            const endTime = BigInt(publicDrop.endTime);
+            const startTime = Number(publicDrop.startTime);
+            const endTime = Number(publicDrop.endTime);
             isActive = now >= startTime && now <= endTime;
 
+            stages.push({
+                id: 'public',
+                name: 'Public',
+                price: mintPrice,
+                startTime,
+                endTime,
+                maxPerWallet,
+                isActive,
+            });
+
             console.log(`📋 SeaDrop Contract Analysis:`);
             console.log(`   Mint Price: ${mintPrice} wei`);
             console.log(`   Active: ${isActive} (${startTime} - ${endTime})`);
@@ -210,13 +215,99 @@ export class SeaDropModule implements PlatformModule {
             console.warn(`⚠️ Could not fetch public drop info:`, e);
         }
 
+        // Gated stages: allowlist root, signers, token gates (all on the singleton)
+        const [merkleRoot, signers, gatedTokens, allowedFeeRecipients] = await Promise.all([
+            publicClient.readContract({
+                address: seaDropAddress as `0x${string}`,
+                abi: SEADROP_ABI,
+                functionName: 'getAllowListMerkleRoot',
+                args: [contractAddress],
+            }).catch(() => ZERO_ROOT),
+            publicClient.readContract({
+                address: seaDropAddress as `0x${string}`,
+                abi: SEADROP_ABI,
+                functionName: 'getSigners',
+                args: [contractAddress],
+            }).catch(() => [] as readonly `0x${string}`[]),
+            publicClient.readContract({
+                address: seaDropAddress as `0x${string}`,
+                abi: SEADROP_ABI,
+                functionName: 'getTokenGatedAllowedTokens',
+                args: [contractAddress],
+            }).catch(() => [] as readonly `0x${string}`[]),
+            publicClient.readContract({
+                address: seaDropAddress as `0x${string}`,
+                abi: SEADROP_ABI,
+                functionName: 'getAllowedFeeRecipients',
+                args: [contractAddress],
+            }).catch(() => [] as readonly `0x${string}`[]),
+        ]);
+
+        // Allowlist/signed stage parameters live off-chain (in the proof/signature payload)
+        if (merkleRoot !== ZERO_ROOT) {
+            stages.push({
+                id: 'allowlist',
+                name: 'Allowlist',
+                startTime: 0,
+                endTime: 0,
+                gate: `Merkle ${merkleRoot.slice(0, 10)}…`,
+                merkleRoot: merkleRoot as `0x${string}`,
+                isActive: false,
+                offChain: true,
+            });
+        }
+
+        if (signers.length > 0) {
+            stages.push({
+                id: 'signed',
+                name: 'Signed',
+                startTime: 0,
+                endTime: 0,
+                gate: `Signature (${signers.length} signer${signers.length > 1 ? 's' : ''})`,
+                isActive: false,
+                offChain: true,
+            });
+        }
+
+        for (const token of gatedTokens) {
+            try {
+                const drop = await publicClient.readContract({
+                    address: seaDropAddress as `0x${string}`,
+                    abi: SEADROP_ABI,
+                    functionName: 'getTokenGatedDrop',
+                    args: [contractAddress, token],
+                });
+                const startTime = Number(drop.startTime);
+                const endTime = Number(drop.endTime);
+                stages.push({
+                    id: `token:${token.toLowerCase()}`,
+                    name: 'Token Holder',
+                    price: BigInt(drop.mintPrice),
+                    startTime,
+                    endTime,
+                    maxPerWallet: BigInt(drop.maxTotalMintableByWallet),
+                    gate: `Holds ${token.slice(0, 10)}…`,
+                    isActive: now >= startTime && now <= endTime,
+                });
+            } catch (e) {
+                console.warn(`⚠️ Could not fetch token-gated drop for ${token}:`, e);
+            }
+        }
+
+        // Prefer OpenSea's recipient; restricted drops must use one from the allowed list
+        let feeRecipient = OPENSEA_FEE_RECIPIENT;
+        if (restrictFeeRecipients && allowedFeeRecipients.length > 0) {
+            const hasOpenSea = allowedFeeRecipients.some(r => r.toLowerCase() === OPENSEA_FEE_RECIPIENT.toLowerCase());
+            feeRecipient = hasOpenSea ? OPENSEA_FEE_RECIPIENT : allowedFeeRecipients[0];
+        }
+
         return {
             address,
             name: name as string,
             chainId,
             platform: 'opensea',
             tokenStandard: 'ERC721',
-            mintFunction: 'mintPublic', // Called on SeaDrop singleton
+            mintFunction: 'mintPublic(address,address,address,uint256)', // Called on SeaDrop singleton
             mintPrice,
             protocolFee: BigInt(0), // SeaDrop fees are handled internally
             creatorFee: BigInt(0),
@@ -226,13 +317,120 @@ export class SeaDropModule implements PlatformModule {
             maxSupply: maxSupply as bigint,
             maxPerWallet,
             routerContract: seaDropAddress, // The SeaDrop singleton to call
+            feeRecipient,
+            stages,
         };
     }
 
+    /**
+     * Build the SeaDrop singleton call for the selected stage (not the token contract).
+     * minterIfNotPayer is zero because the sending wallet receives the tokens.
+     */
+    async buildMintCall(info: PlatformContractInfo, quantity: number): Promise<MintCall> {
+        const router = (info.routerContract || this.getSeaDropAddress(info.chainId)) as `0x${string}`;
+        const feeRecipient = info.feeRecipient || OPENSEA_FEE_RECIPIENT;
+        const token = info.address as `0x${string}`;
+        const creds = info.credentials;
+
+        if (!creds?.stage || creds.stage === 'public') {
+            return {
+                to: router,
+                abi: SEADROP_ABI,
+                functionName: 'mintPublic',
+                args: [token, feeRecipient, zeroAddress, BigInt(quantity)],
+                value: info.getTotalValue(quantity),
+            };
+        }
+
+        switch (creds.stage.startsWith('token:') ? 'token' : creds.stage) {
+            case 'allowlist': {
+                if (!creds.proof || !creds.mintParams) {
+                    throw new Error('SeaDrop allowlist mint needs "proof" and "mintParams"');
+                }
+                const mintParams = toMintParams(creds.mintParams);
+                return {
+                    to: router,
+                    abi: SEADROP_ABI,
+                    functionName: 'mintAllowList',
+                    args: [token, feeRecipient, zeroAddress, BigInt(quantity), mintParams, creds.proof],
+                    value: mintParams.mintPrice * BigInt(quantity),
+                };
+            }
+
+            case 'signed': {
+                if (!creds.signature || !creds.mintParams || creds.salt === undefined) {
+                    throw new Error('SeaDrop signed mint needs "signature", "salt" and "mintParams"');
+                }
+                const mintParams = toMintParams(creds.mintParams);
+                return {
+                    to: router,
+                    abi: SEADROP_ABI,
+                    functionName: 'mintSigned',
+                    args: [token, feeRecipient, zeroAddress, BigInt(quantity), mintParams, creds.salt, creds.signature],
+                    value: mintParams.mintPrice * BigInt(quantity),
+                };
+            }
+
+            case 'token': {
+                // 'contract stage token:<addr>' names the gate token in the stage id
+                const gateToken = creds.gateToken || creds.stage.slice('token:'.length);
+                if (!gateToken || !creds.gateTokenIds?.length) {
+                    throw new Error('SeaDrop token-gated mint needs "gateToken" and "gateTokenIds"');
+                }
+                // One mint per redeemed token ID, priced by the token-gated stage
+                const stage = info.stages?.find(s => s.id === `token:${gateToken.toLowerCase()}`);
+                const price = stage?.price ?? info.mintPrice;
+                return {
+                    to: router,
+                    abi: SEADROP_ABI,
+                    functionName: 'mintAllowedTokenHolder',
+                    args: [token, feeRecipient, zeroAddress, {
+                        allowedNftToken: gateToken as `0x${string}`,
+                        allowedNftTokenIds: creds.gateTokenIds,
+                    }],
+                    value: price * BigInt(creds.gateTokenIds.length),
+                };
+            }
+
+            default:
+                throw new Error(`Unknown SeaDrop stage "${creds.stage}" (stages: ${info.stages?.map(s => s.id).join(', ')})`);
+        }
+    }
+
     /**
      * Get the SeaDrop singleton address for a chain
      */
     getSeaDropAddress(chainId: number): string {
         return SEADROP_ADDRESSES[chainId] || SEADROP_ADDRESSES[1];
     }
+
+    /**
+     * Price of the selected stage: public drop, or the mintPrice the proof/signature commits to.
+     * OpenSea's fee is taken out of the price, not added on top.
+     */
+    async quote(info: PlatformContractInfo, quantity: number): Promise<PriceQuote> {
+        return quoteFromCall(info, quantity, await this.buildMintCall(info, quantity));
+    }
+
+    /**
+     * Leaves commit to the stage's MintParams, which live off-chain: they must be supplied.
+     * A row's quantity and price replace maxTotalMintableByWallet and mintPrice.
+     */
+    allowlistEncoding(stage: MintStage, mintParams?: Record<string, string | number | boolean>): AllowlistEncoding {
+        if (!mintParams) {
+            throw new Error('SeaDrop allowlist leaves include the stage MintParams - pass them with --params {"mintPrice":...,"dropStageIndex":...}');
+        }
+
+        const paramsFor = (entry: { quantity?: bigint; price?: bigint }) => ({
+            ...mintParams,
+            ...(entry.price !== undefined ? { mintPrice: entry.price.toString() } : {}),
+            ...(entry.quantity !== undefined ? { maxTotalMintableByWallet: entry.quantity.toString() } : {}),
+        });
+
+        return {
+            description: 'keccak256(abi.encode(address, MintParams))',
+            leaf: entry => keccak256(encodeAbiParameters(ALLOWLIST_LEAF, [entry.address, toMintParams(paramsFor(entry))])),
+            credentials: entry => ({ stage: stage.id, mintParams: paramsFor(entry) }),
+        };
+    }
 }
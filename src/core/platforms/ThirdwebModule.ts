@@ -1,6 +1,6 @@
-import { createPublicClient, http, parseAbi, type Chain } from 'viem';
+import { createPublicClient, encodePacked, http, keccak256, maxUint256, parseAbi, zeroAddress, type Chain, type PublicClient } from 'viem';
 import { mainnet, sepolia, goerli, polygon, arbitrum, optimism, base } from 'viem/chains';
-import type { PlatformModule, PlatformContractInfo } from './PlatformManager';
+import { quoteFromCall, readPaymentToken, readTokenStandard, detectionFrom, detectionSignal, type PlatformDetection, type PlatformModule, type PlatformContractInfo, type MintCall, type MintStage, type MintCredentials, type AnalyzeOptions, type PriceQuote, type QuoteOptions, type AllowlistEncoding } from './PlatformManager';
 
 // Chain lookup
 const CHAINS: Record<number, Chain> = {
@@ -21,8 +21,13 @@ const THIRDWEB_ABI = parseAbi([
     'function contractVersion() view returns (uint8)',
 
     // Claim conditions (Thirdweb signature)
+    'struct ClaimCondition { uint256 startTimestamp; uint256 maxClaimableSupply; uint256 supplyClaimed; uint256 quantityLimitPerWallet; bytes32 merkleRoot; uint256 pricePerToken; address currency; string metadata; }',
+    'struct AllowlistProof { bytes32[] proof; uint256 quantityLimitPerWallet; uint256 pricePerToken; address currency; }',
+    'function claimCondition() view returns (uint256 currentStartId, uint256 count)',
     'function getActiveClaimConditionId() view returns (uint256)',
-    'function getClaimConditionById(uint256 conditionId) view returns ((uint256 startTimestamp, uint256 maxClaimableSupply, uint256 supplyClaimed, uint256 quantityLimitPerWallet, bytes32 merkleRoot, uint256 pricePerToken, address currency, string metadata))',
+    'function getClaimConditionById(uint256 conditionId) view returns (ClaimCondition)',
+    'function getSupplyClaimedByWallet(uint256 conditionId, address claimer) view returns (uint256)',
+    'function verifyClaim(uint256 conditionId, address claimer, uint256 quantity, address currency, uint256 pricePerToken, AllowlistProof allowlistProof) view returns (bool isOverride)',
 
     // Mint function
     'function claim(address receiver, uint256 quantity, address currency, uint256 pricePerToken, (bytes32[] proof, uint256 quantityLimitPerWallet, uint256 pricePerToken, address currency) allowlistProof, bytes data) payable',
@@ -37,16 +42,111 @@ const THIRDWEB_ABI = parseAbi([
     'function maxTotalSupply() view returns (uint256)',
 ] as const);
 
+// Full Drop claim - the only claim entrypoint on current Thirdweb drops
+const THIRDWEB_CLAIM_ABI = parseAbi([
+    'function claim(address receiver, uint256 quantity, address currency, uint256 pricePerToken, (bytes32[] proof, uint256 quantityLimitPerWallet, uint256 pricePerToken, address currency) allowlistProof, bytes data) payable',
+] as const);
+
+// Edition Drop (ERC1155): the same claim phases, kept per token ID
+const THIRDWEB_1155_ABI = parseAbi([
+    'struct ClaimCondition { uint256 startTimestamp; uint256 maxClaimableSupply; uint256 supplyClaimed; uint256 quantityLimitPerWallet; bytes32 merkleRoot; uint256 pricePerToken; address currency; string metadata; }',
+    'struct AllowlistProof { bytes32[] proof; uint256 quantityLimitPerWallet; uint256 pricePerToken; address currency; }',
+    'function claimCondition(uint256 tokenId) view returns (uint256 currentStartId, uint256 count)',
+    'function getActiveClaimConditionId(uint256 tokenId) view returns (uint256)',
+    'function getClaimConditionById(uint256 tokenId, uint256 conditionId) view returns (ClaimCondition)',
+    'function getSupplyClaimedByWallet(uint256 tokenId, uint256 conditionId, address claimer) view returns (uint256)',
+    'function verifyClaim(uint256 conditionId, address claimer, uint256 tokenId, uint256 quantity, address currency, uint256 pricePerToken, AllowlistProof allowlistProof) view returns (bool isOverride)',
+    'function claim(address receiver, uint256 tokenId, uint256 quantity, address currency, uint256 pricePerToken, (bytes32[] proof, uint256 quantityLimitPerWallet, uint256 pricePerToken, address currency) allowlistProof, bytes data) payable',
+    'function totalSupply(uint256 id) view returns (uint256)',
+    'function maxTotalSupply(uint256 id) view returns (uint256)',
+] as const);
+
+// Thirdweb's sentinel for the chain's native currency
+const NATIVE_CURRENCY = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+const ZERO_ROOT = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+/**
+ * Allowlist proof struct from imported credentials.
+ * mintParams may carry the wallet's overrides: quantityLimitPerWallet, pricePerToken, currency.
+ */
+function toAllowlistProof(credentials?: MintCredentials) {
+    const overrides = credentials?.mintParams || {};
+    return {
+        proof: credentials?.proof || [],
+        quantityLimitPerWallet: BigInt(overrides.quantityLimitPerWallet === undefined ? 0 : overrides.quantityLimitPerWallet as string | number),
+        pricePerToken: overrides.pricePerToken === undefined ? maxUint256 : BigInt(overrides.pricePerToken as string | number),
+        currency: (overrides.currency || zeroAddress) as `0x${string}`,
+    };
+}
+
+type AllowlistProof = ReturnType<typeof toAllowlistProof>;
+
+/**
+ * Price and currency the contract will charge: allowlist overrides win when they set a price
+ */
+function resolvePricing(
+    condition: { pricePerToken: bigint; currency: `0x${string}` },
+    allowlistProof: AllowlistProof
+) {
+    if (allowlistProof.pricePerToken === maxUint256) {
+        return { pricePerToken: condition.pricePerToken, currency: condition.currency };
+    }
+    return {
+        pricePerToken: allowlistProof.pricePerToken,
+        currency: allowlistProof.currency !== zeroAddress ? allowlistProof.currency : condition.currency,
+    };
+}
+
+function isNativeCurrency(currency: string): boolean {
+    return currency.toLowerCase() === NATIVE_CURRENCY.toLowerCase();
+}
+
+/**
+ * Claim-condition reads for a Drop, or for one token of an Edition Drop when tokenId is set
+ */
+function claimReader(publicClient: PublicClient, address: `0x${string}`, tokenId?: bigint) {
+    return {
+        activeConditionId: () => tokenId === undefined
+            ? publicClient.readContract({ address, abi: THIRDWEB_ABI, functionName: 'getActiveClaimConditionId' })
+            : publicClient.readContract({ address, abi: THIRDWEB_1155_ABI, functionName: 'getActiveClaimConditionId', args: [tokenId] }),
+
+        conditionRange: () => tokenId === undefined
+            ? publicClient.readContract({ address, abi: THIRDWEB_ABI, functionName: 'claimCondition' })
+            : publicClient.readContract({ address, abi: THIRDWEB_1155_ABI, functionName: 'claimCondition', args: [tokenId] }),
+
+        condition: (conditionId: bigint) => tokenId === undefined
+            ? publicClient.readContract({ address, abi: THIRDWEB_ABI, functionName: 'getClaimConditionById', args: [conditionId] })
+            : publicClient.readContract({ address, abi: THIRDWEB_1155_ABI, functionName: 'getClaimConditionById', args: [tokenId, conditionId] }),
+
+        supplyClaimedByWallet: (conditionId: bigint, wallet: `0x${string}`) => tokenId === undefined
+            ? publicClient.readContract({ address, abi: THIRDWEB_ABI, functionName: 'getSupplyClaimedByWallet', args: [conditionId, wallet] })
+            : publicClient.readContract({ address, abi: THIRDWEB_1155_ABI, functionName: 'getSupplyClaimedByWallet', args: [tokenId, conditionId, wallet] }),
+
+        verifyClaim: (conditionId: bigint, wallet: `0x${string}`, quantity: bigint, currency: `0x${string}`, pricePerToken: bigint, allowlistProof: AllowlistProof) => tokenId === undefined
+            ? publicClient.readContract({ address, abi: THIRDWEB_ABI, functionName: 'verifyClaim', args: [conditionId, wallet, quantity, currency, pricePerToken, allowlistProof] })
+            : publicClient.readContract({ address, abi: THIRDWEB_1155_ABI, functionName: 'verifyClaim', args: [conditionId, wallet, tokenId, quantity, currency, pricePerToken, allowlistProof] }),
+
+        totalSupply: () => tokenId === undefined
+            ? publicClient.readContract({ address, abi: THIRDWEB_ABI, functionName: 'totalSupply' })
+            : publicClient.readContract({ address, abi: THIRDWEB_1155_ABI, functionName: 'totalSupply', args: [tokenId] }),
+
+        maxTotalSupply: () => tokenId === undefined
+            ? publicClient.readContract({ address, abi: THIRDWEB_ABI, functionName: 'maxTotalSupply' })
+            : publicClient.readContract({ address, abi: THIRDWEB_1155_ABI, functionName: 'maxTotalSupply', args: [tokenId] }),
+    };
+}
+
 /**
  * Thirdweb Module
  * 
  * Handles Thirdweb NFT Drop and Edition Drop contracts.
- * Uses claim conditions for pricing and eligibility.
+ * Uses claim conditions for pricing and eligibility; Edition Drops keep them per token ID.
  */
 export class ThirdwebModule implements PlatformModule {
     name = 'Thirdweb';
 
-    async detect(address: string, chainId: number): Promise<boolean> {
+    async detect(address: string, chainId: number): Promise<PlatformDetection> {
         const chain = CHAINS[chainId] || mainnet;
         const publicClient = createPublicClient({
             chain,
@@ -55,37 +155,21 @@ export class ThirdwebModule implements PlatformModule {
 
         const contractAddress = address as `0x${string}`;
 
-        try {
-            // Check for contractType which is unique to Thirdweb
-            const contractType = await publicClient.readContract({
-                address: contractAddress,
-                abi: THIRDWEB_ABI,
-                functionName: 'contractType',
-            });
+        // contractType() is unique to Thirdweb (NFTDrop, EditionDrop, ...); claim conditions back it up
+        const [contractType, claimConditions] = await Promise.all([
+            publicClient.readContract({ address: contractAddress, abi: THIRDWEB_ABI, functionName: 'contractType' })
+                .catch(() => undefined),
+            publicClient.readContract({ address: contractAddress, abi: THIRDWEB_ABI, functionName: 'getActiveClaimConditionId' })
+                .then(() => true).catch(() => false),
+        ]);
 
-            // Thirdweb contract types include: NFTDrop, EditionDrop, etc.
-            if (contractType) {
-                console.log(`✅ Detected Thirdweb contract, type: ${contractType}`);
-                return true;
-            }
-            return false;
-        } catch {
-            // Try alternative: getActiveClaimConditionId
-            try {
-                await publicClient.readContract({
-                    address: contractAddress,
-                    abi: THIRDWEB_ABI,
-                    functionName: 'getActiveClaimConditionId',
-                });
-                console.log(`✅ Detected Thirdweb contract via claim conditions`);
-                return true;
-            } catch {
-                return false;
-            }
-        }
+        return detectionFrom([
+            detectionSignal(contractType ? `contractType() is ${contractType}` : 'contractType() answers', !!contractType, 0.9),
+            detectionSignal('getActiveClaimConditionId() answers', claimConditions, 0.7),
+        ]);
     }
 
-    async analyze(address: string, chainId: number): Promise<PlatformContractInfo> {
+    async analyze(address: string, chainId: number, options: AnalyzeOptions = {}): Promise<PlatformContractInfo> {
         const chain = CHAINS[chainId] || mainnet;
         const publicClient = createPublicClient({
             chain,
@@ -94,6 +178,14 @@ export class ThirdwebModule implements PlatformModule {
 
         const contractAddress = address as `0x${string}`;
 
+        // Edition Drops keep claim conditions per token
+        const tokenStandard = await readTokenStandard(publicClient, contractAddress);
+        const tokenId = tokenStandard === 'ERC1155' ? options.tokenId : undefined;
+        if (tokenStandard === 'ERC1155' && tokenId === undefined) {
+            throw new Error('Thirdweb Edition Drop: pass --token <id> to select the token');
+        }
+        const reader = claimReader(publicClient, contractAddress, tokenId);
+
         // Get basic info
         const [name, totalSupply] = await Promise.all([
             publicClient.readContract({
@@ -101,57 +193,96 @@ export class ThirdwebModule implements PlatformModule {
                 abi: THIRDWEB_ABI,
                 functionName: 'name',
             }).catch(() => 'Unknown'),
-            publicClient.readContract({
-                address: contractAddress,
-                abi: THIRDWEB_ABI,
-                functionName: 'totalSupply',
-            }).catch(() => BigInt(0)),
+            reader.totalSupply().catch(() => BigInt(0)),
         ]);
 
         let maxSupply = BigInt(0);
         try {
-            maxSupply = await publicClient.readContract({
-                address: contractAddress,
-                abi: THIRDWEB_ABI,
-                functionName: 'maxTotalSupply',
-            }) as bigint;
-        } catch { }
+            maxSupply = await reader.maxTotalSupply();
+        } catch { /* not capped */ }
+
+        // Active condition reverts when no phase has started yet
+        const activeId = await reader.activeConditionId().catch(() => undefined);
+
+        // All phases: [currentStartId, currentStartId + count)
+        let conditionIds: bigint[] = activeId !== undefined ? [activeId] : [];
+        try {
+            const [startId, count] = await reader.conditionRange();
+            conditionIds = Array.from({ length: Number(count) }, (_, i) => startId + BigInt(i));
+        } catch { /* single-phase drop */ }
+
+        const conditions = await Promise.all(conditionIds.map(id =>
+            reader.condition(id).then(condition => ({ id, condition })).catch(() => null)
+        ));
+
+        const stages: MintStage[] = [];
+        const known = conditions.filter((c): c is NonNullable<typeof c> => c !== null);
+        known.forEach(({ id, condition }, i) => {
+            // A phase ends when the next one starts
+            const next = known[i + 1];
+            stages.push({
+                id: `condition:${id}`,
+                name: `Phase ${id}`,
+                price: condition.pricePerToken,
+                startTime: Number(condition.startTimestamp),
+                endTime: next ? Number(next.condition.startTimestamp) : 0,
+                maxPerWallet: condition.quantityLimitPerWallet,
+                currency: isNativeCurrency(condition.currency) ? undefined : condition.currency,
+                gate: condition.merkleRoot !== ZERO_ROOT ? `Merkle ${condition.merkleRoot.slice(0, 10)}…` : undefined,
+                merkleRoot: condition.merkleRoot !== ZERO_ROOT ? condition.merkleRoot : undefined,
+                isActive: id === activeId,
+            });
+        });
 
-        // Get current claim condition for price
         let mintPrice = BigInt(0);
         let isActive = false;
+        let maxPerWallet: bigint | undefined;
+        let eligibility: PlatformContractInfo['eligibility'];
+        let payment: PlatformContractInfo['payment'];
 
-        try {
-            const conditionId = await publicClient.readContract({
-                address: contractAddress,
-                abi: THIRDWEB_ABI,
-                functionName: 'getActiveClaimConditionId',
-            }) as bigint;
+        const active = known.find(c => c.id === activeId);
+        if (active) {
+            const { condition } = active;
+            mintPrice = isNativeCurrency(condition.currency) ? condition.pricePerToken : BigInt(0);
+            maxPerWallet = condition.quantityLimitPerWallet;
+            isActive = condition.supplyClaimed < condition.maxClaimableSupply;
 
-            const condition = await publicClient.readContract({
-                address: contractAddress,
-                abi: THIRDWEB_ABI,
-                functionName: 'getClaimConditionById',
-                args: [conditionId],
-            }) as any;
+            if (!isNativeCurrency(condition.currency)) {
+                payment = await readPaymentToken(publicClient, condition.currency, contractAddress, condition.pricePerToken);
+            }
 
-            if (condition) {
-                mintPrice = BigInt(condition.pricePerToken || condition[5] || 0);
-                isActive = true;
+            // Let the contract judge the wallet: verifyClaim reverts with the reason
+            if (options.wallet) {
+                const allowlistProof = toAllowlistProof();
+                const wallet = options.wallet as `0x${string}`;
+                try {
+                    await reader.verifyClaim(active.id, wallet, BigInt(1), condition.currency, condition.pricePerToken, allowlistProof);
+                    eligibility = { eligible: true };
+                } catch (e) {
+                    const claimed = await reader.supplyClaimedByWallet(active.id, wallet).catch(() => undefined);
+                    const reason = (e as { shortMessage?: string }).shortMessage
+                        || (e instanceof Error ? e.message : String(e))
+                        || 'verifyClaim reverted';
+                    eligibility = {
+                        eligible: false,
+                        reason: claimed !== undefined ? `${reason} (claimed ${claimed}/${condition.quantityLimitPerWallet})` : reason,
+                    };
+                }
             }
-        } catch (e) {
-            console.warn("Failed to get claim condition:", e);
+        } else if (known.length === 0) {
+            console.warn("Failed to get claim conditions");
         }
 
-        // Thirdweb uses claim(address, uint256) for simple claims
-        const mintFunction = 'claim(address,uint256)';
+        const mintFunction = tokenId === undefined
+            ? 'claim(address,uint256,address,uint256,(bytes32[],uint256,uint256,address),bytes)'
+            : 'claim(address,uint256,uint256,address,uint256,(bytes32[],uint256,uint256,address),bytes)';
 
         return {
             address,
             name: name as string,
             chainId,
-            platform: 'thirdweb' as any,
-            tokenStandard: 'ERC721',
+            platform: 'thirdweb',
+            tokenStandard,
             mintFunction,
             mintPrice,
             protocolFee: BigInt(0),
@@ -160,6 +291,94 @@ export class ThirdwebModule implements PlatformModule {
             isActive,
             totalSupply: totalSupply as bigint,
             maxSupply,
+            maxPerWallet,
+            tokenId,
+            stages,
+            eligibility,
+            payment,
+        };
+    }
+
+    /**
+     * Build the full claim call against the claim condition active right now.
+     * Without imported credentials the empty allowlist proof applies the public condition;
+     * with a proof, its per-wallet overrides decide the price and currency sent.
+     */
+    async buildMintCall(info: PlatformContractInfo, quantity: number, wallet: string): Promise<MintCall> {
+        const chain = CHAINS[info.chainId] || mainnet;
+        const publicClient = createPublicClient({
+            chain,
+            transport: http()
+        });
+
+        const contractAddress = info.address as `0x${string}`;
+        const reader = claimReader(publicClient, contractAddress, info.tokenId);
+
+        const conditionId = await reader.activeConditionId();
+        const condition = await reader.condition(conditionId);
+
+        const allowlistProof = toAllowlistProof(info.credentials);
+        const { pricePerToken, currency } = resolvePricing(condition, allowlistProof);
+        const total = pricePerToken * BigInt(quantity);
+        const isNative = isNativeCurrency(currency);
+
+        // Edition Drops take the token ID right after the receiver
+        const claim = info.tokenId === undefined
+            ? { abi: THIRDWEB_CLAIM_ABI, args: [wallet, BigInt(quantity), currency, pricePerToken, allowlistProof, '0x'] }
+            : { abi: THIRDWEB_1155_ABI, args: [wallet, info.tokenId, BigInt(quantity), currency, pricePerToken, allowlistProof, '0x'] };
+
+        return {
+            to: contractAddress,
+            abi: claim.abi,
+            functionName: 'claim',
+            args: claim.args,
+            // ERC20 phases are paid by transferFrom, not msg.value
+            value: isNative ? total : BigInt(0),
+            payment: isNative || total === BigInt(0)
+                ? undefined
+                : { token: currency, spender: contractAddress, amount: total },
+        };
+    }
+
+    /**
+     * Price of the active claim condition, with the imported allowlist overrides applied
+     */
+    async quote(info: PlatformContractInfo, quantity: number, options: QuoteOptions = {}): Promise<PriceQuote> {
+        return quoteFromCall(info, quantity, await this.buildMintCall(info, quantity, options.wallet || zeroAddress));
+    }
+
+    /**
+     * Leaves as the thirdweb SDK hashes them: a missing quantity or price is "unlimited" (max uint256).
+     * For the quantity that means no per-wallet limit (only 0 falls back to the condition's); for the
+     * price it means the condition's price and currency apply.
+     */
+    allowlistEncoding(stage: MintStage): AllowlistEncoding {
+        const termsFor = (entry: { quantity?: bigint; price?: bigint; currency?: `0x${string}` }) => ({
+            quantityLimitPerWallet: entry.quantity ?? maxUint256,
+            pricePerToken: entry.price ?? maxUint256,
+            currency: entry.currency ?? zeroAddress,
+        });
+
+        return {
+            description: 'keccak256(abi.encodePacked(address, uint256 quantityLimitPerWallet, uint256 pricePerToken, address currency))',
+            leaf: entry => {
+                const terms = termsFor(entry);
+                return keccak256(encodePacked(
+                    ['address', 'uint256', 'uint256', 'address'],
+                    [entry.address, terms.quantityLimitPerWallet, terms.pricePerToken, terms.currency]
+                ));
+            },
+            credentials: entry => {
+                const terms = termsFor(entry);
+                return {
+                    stage: stage.id,
+                    mintParams: {
+                        quantityLimitPerWallet: terms.quantityLimitPerWallet.toString(),
+                        pricePerToken: terms.pricePerToken.toString(),
+                        currency: terms.currency,
+                    },
+                };
+            },
         };
     }
 }
@@ -1,6 +1,7 @@
-import { createPublicClient, http, parseAbi, type Chain } from 'viem';
+import { createPublicClient, encodeAbiParameters, http, keccak256, parseAbi, zeroAddress, type Chain, type PublicClient } from 'viem';
 import { mainnet, sepolia, goerli, polygon, arbitrum, optimism, base } from 'viem/chains';
-import type { PlatformModule, PlatformContractInfo } from './PlatformManager';
+import { getProviderTransport } from '../../config/transport';
+import { quoteFromCall, readTokenStandard, detectionFrom, detectionSignal, type PlatformDetection, type PlatformModule, type PlatformContractInfo, type MintCall, type MintStage, type AnalyzeOptions, type PriceQuote, type QuoteOptions, type AllowlistEncoding } from './PlatformManager';
 
 // Chain lookup
 const CHAINS: Record<number, Chain> = {
@@ -33,16 +34,55 @@ const ZORA_ABI = parseAbi([
     'function config() view returns (address metadataRenderer, uint64 editionSize, uint16 royaltyBPS, address fundsRecipient)',
 ] as const);
 
+// Zora 1155 creator contracts: one contract, many tokens, each with its own supply
+const ZORA_1155_ABI = parseAbi([
+    'struct TokenData { string uri; uint256 maxSupply; uint256 totalMinted; }',
+    'function getTokenInfo(uint256 tokenId) view returns (TokenData)',
+    'function mintFee() view returns (uint256)',
+    'function contractVersion() view returns (string)',
+    'function name() view returns (string)',
+
+    // Minters are granted a permission bit per token (or contract-wide on token 0)
+    'function permissions(uint256 tokenId, address user) view returns (uint256)',
+    'event UpdatedPermissions(uint256 indexed tokenId, address indexed user, uint256 indexed permissions)',
+
+    // Mint through a sale strategy; it decodes minterArguments and enforces price/limits
+    'function mint(address minter, uint256 tokenId, uint256 quantity, address[] rewardsRecipients, bytes minterArguments) payable',
+] as const);
+
+// Sale strategies (minters) - price, timing and wallet limits per token
+const ZORA_MINTER_ABI = parseAbi([
+    // Fixed price sale strategy
+    'struct SalesConfig { uint64 saleStart; uint64 saleEnd; uint64 maxTokensPerAddress; uint96 pricePerToken; address fundsRecipient; }',
+    'function sale(address tokenContract, uint256 tokenId) view returns (SalesConfig)',
+    'function getMintedPerWallet(address tokenContract, uint256 tokenId, address wallet) view returns (uint256)',
+
+    // Merkle sale strategy (allowlist; price and quantity live in each leaf)
+    'struct MerkleSaleSettings { uint64 presaleStart; uint64 presaleEnd; address fundsRecipient; bytes32 merkleRoot; }',
+    'function allowedMerkles(address tokenContract, uint256 tokenId) view returns (MerkleSaleSettings)',
+] as const);
+
+// Zora deploys its sale strategies at the same address on every chain
+const KNOWN_MINTERS: `0x${string}`[] = [
+    '0x04E2516A2c207E84a1839755675dfd8eF6302F0a', // Fixed price
+    '0xf48172CA3B6068B20eE4917Eb27b5472f1f272C7', // Merkle
+];
+
+const PERMISSION_BIT_MINTER = BigInt(4);
+const ZERO_ROOT = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
 /**
  * Zora Module
  * 
  * Handles Zora Editions and Creator contracts.
  * Zora has specific fee structures and purchase functions.
+ * 1155 creator contracts keep supply per token, so they need a token ID;
+ * each token is sold through a sale strategy (minter) that holds its price and limits.
  */
 export class ZoraModule implements PlatformModule {
     name = 'Zora';
 
-    async detect(address: string, chainId: number): Promise<boolean> {
+    async detect(address: string, chainId: number): Promise<PlatformDetection> {
         const chain = CHAINS[chainId] || mainnet;
         const publicClient = createPublicClient({
             chain,
@@ -51,34 +91,23 @@ export class ZoraModule implements PlatformModule {
 
         const contractAddress = address as `0x${string}`;
 
-        try {
-            // Check for zoraFeeForAmount which is unique to Zora
-            await publicClient.readContract({
-                address: contractAddress,
-                abi: ZORA_ABI,
-                functionName: 'zoraFeeForAmount',
-                args: [BigInt(1)],
-            });
-            console.log(`✅ Detected Zora contract via zoraFeeForAmount()`);
-            return true;
-        } catch {
-            // Try salesConfig
-            try {
-                const config = await publicClient.readContract({
-                    address: contractAddress,
-                    abi: ZORA_ABI,
-                    functionName: 'salesConfig',
-                });
-                if (config) {
-                    console.log(`✅ Detected Zora contract via salesConfig()`);
-                    return true;
-                }
-            } catch { }
-            return false;
-        }
+        // zoraFeeForAmount() is unique to Zora; salesConfig() alone is a common name elsewhere
+        const [zoraFee, salesConfig, creator1155] = await Promise.all([
+            publicClient.readContract({ address: contractAddress, abi: ZORA_ABI, functionName: 'zoraFeeForAmount', args: [BigInt(1)] })
+                .then(() => true).catch(() => false),
+            publicClient.readContract({ address: contractAddress, abi: ZORA_ABI, functionName: 'salesConfig' })
+                .then(config => !!config).catch(() => false),
+            this.is1155Creator(publicClient, contractAddress),
+        ]);
+
+        return detectionFrom([
+            detectionSignal('zoraFeeForAmount(1) answers', zoraFee, 0.95),
+            detectionSignal('salesConfig() answers', salesConfig, 0.4),
+            detectionSignal('ERC-1155 with getTokenInfo(0)', creator1155, 0.8),
+        ]);
     }
 
-    async analyze(address: string, chainId: number): Promise<PlatformContractInfo> {
+    async analyze(address: string, chainId: number, options: AnalyzeOptions = {}): Promise<PlatformContractInfo> {
         const chain = CHAINS[chainId] || mainnet;
         const publicClient = createPublicClient({
             chain,
@@ -87,6 +116,10 @@ export class ZoraModule implements PlatformModule {
 
         const contractAddress = address as `0x${string}`;
 
+        if (await this.is1155Creator(publicClient, contractAddress)) {
+            return await this.analyze1155(publicClient, contractAddress, chainId, options);
+        }
+
         // Get basic info
         const [name, totalSupply] = await Promise.all([
             publicClient.readContract({
@@ -160,7 +193,7 @@ export class ZoraModule implements PlatformModule {
             address,
             name: name as string,
             chainId,
-            platform: 'zora' as any,
+            platform: 'zora',
             tokenStandard: 'ERC721',
             mintFunction,
             mintPrice,
@@ -173,4 +206,334 @@ export class ZoraModule implements PlatformModule {
             maxPerWallet,
         };
     }
+
+    /**
+     * Build purchase(uint256) call - value covers price plus the Zora fee per token.
+     * 1155 tokens mint on the creator contract through the stage's minter instead.
+     */
+    async buildMintCall(info: PlatformContractInfo, quantity: number, wallet: string): Promise<MintCall> {
+        if (info.tokenStandard === 'ERC1155') {
+            return this.build1155Call(info, quantity, wallet);
+        }
+
+        const quote = await this.quote(info, quantity);
+
+        return {
+            to: info.address as `0x${string}`,
+            abi: ZORA_ABI,
+            functionName: 'purchase',
+            args: [BigInt(quantity)],
+            value: quote.total,
+        };
+    }
+
+    /**
+     * Sale price plus the Zora fee for the whole quantity (zoraFeeForAmount on editions)
+     */
+    async quote(info: PlatformContractInfo, quantity: number, options: QuoteOptions = {}): Promise<PriceQuote> {
+        if (info.tokenStandard === 'ERC1155') {
+            return quoteFromCall(info, quantity, this.build1155Call(info, quantity, options.wallet || zeroAddress));
+        }
+
+        const chain = CHAINS[info.chainId] || mainnet;
+        const publicClient = createPublicClient({
+            chain,
+            transport: getProviderTransport(info.chainId)
+        });
+
+        const protocolFee = await publicClient.readContract({
+            address: info.address as `0x${string}`,
+            abi: ZORA_ABI,
+            functionName: 'zoraFeeForAmount',
+            args: [BigInt(quantity)],
+            blockNumber: options.blockNumber,
+        }).then(([, fee]) => fee).catch(() => info.protocolFee * BigInt(quantity));
+
+        const basePrice = info.mintPrice * BigInt(quantity);
+
+        return {
+            quantity,
+            basePrice,
+            protocolFee,
+            creatorFee: BigInt(0),
+            affiliateDiscount: BigInt(0),
+            total: basePrice + protocolFee,
+        };
+    }
+
+    /**
+     * Merkle sale strategy leaves: keccak256(abi.encode(mintTo, maxQuantity, pricePerToken)); every row needs both terms
+     */
+    allowlistEncoding(stage: MintStage): AllowlistEncoding {
+        const termsFor = (entry: { address: string; quantity?: bigint; price?: bigint }) => {
+            if (entry.quantity === undefined || entry.price === undefined) {
+                throw new Error(`Zora allowlist rows need a quantity and a price (${entry.address})`);
+            }
+            return { maxQuantity: entry.quantity, pricePerToken: entry.price };
+        };
+
+        return {
+            description: 'keccak256(abi.encode(address, uint256 maxQuantity, uint256 pricePerToken))',
+            leaf: entry => {
+                const { maxQuantity, pricePerToken } = termsFor(entry);
+                return keccak256(encodeAbiParameters(
+                    [{ type: 'address' }, { type: 'uint256' }, { type: 'uint256' }],
+                    [entry.address, maxQuantity, pricePerToken]
+                ));
+            },
+            credentials: entry => {
+                const { maxQuantity, pricePerToken } = termsFor(entry);
+                return { stage: stage.id, mintParams: { maxQuantity: maxQuantity.toString(), pricePerToken: pricePerToken.toString() } };
+            },
+        };
+    }
+
+    /**
+     * mint(minter, tokenId, quantity, rewardsRecipients, minterArguments).
+     * Fixed price takes (mintTo, comment); Merkle takes (mintTo, maxQuantity, pricePerToken, proof)
+     * from the imported allowlist entry.
+     */
+    private build1155Call(info: PlatformContractInfo, quantity: number, wallet: string): MintCall {
+        const stage = info.credentials?.stage || 'public';
+        const minter = info.minters?.[stage];
+        if (!minter || info.tokenId === undefined) {
+            throw new Error(`No Zora sale strategy for token ${info.tokenId} in stage "${stage}"`);
+        }
+
+        let pricePerToken = info.mintPrice;
+        let minterArguments: `0x${string}`;
+
+        if (stage === 'allowlist') {
+            const params = info.credentials?.mintParams || {};
+            if (params.maxQuantity === undefined || params.pricePerToken === undefined) {
+                throw new Error('Zora allowlist mint needs mintParams.maxQuantity and mintParams.pricePerToken from the allowlist entry');
+            }
+            pricePerToken = BigInt(params.pricePerToken as string | number);
+            minterArguments = encodeAbiParameters(
+                [{ type: 'address' }, { type: 'uint256' }, { type: 'uint256' }, { type: 'bytes32[]' }],
+                [wallet as `0x${string}`, BigInt(params.maxQuantity as string | number), pricePerToken, info.credentials?.proof || []]
+            );
+        } else {
+            minterArguments = encodeAbiParameters(
+                [{ type: 'address' }, { type: 'string' }],
+                [wallet as `0x${string}`, '']
+            );
+        }
+
+        return {
+            to: info.address as `0x${string}`,
+            abi: ZORA_1155_ABI,
+            functionName: 'mint',
+            args: [minter, info.tokenId, BigInt(quantity), [], minterArguments],
+            value: (pricePerToken + info.protocolFee) * BigInt(quantity),
+        };
+    }
+
+    /**
+     * Per-token supply, the protocol mint fee and the token's sale strategies
+     */
+    private async analyze1155(
+        publicClient: PublicClient,
+        contractAddress: `0x${string}`,
+        chainId: number,
+        options: AnalyzeOptions
+    ): Promise<PlatformContractInfo> {
+        if (options.tokenId === undefined) {
+            throw new Error('Zora 1155 contract: pass --token <id> to select the token');
+        }
+        const tokenId = options.tokenId;
+
+        const [name, tokenInfo, mintFee] = await Promise.all([
+            publicClient.readContract({
+                address: contractAddress,
+                abi: ZORA_1155_ABI,
+                functionName: 'name',
+            }).catch(() => 'Unknown'),
+            publicClient.readContract({
+                address: contractAddress,
+                abi: ZORA_1155_ABI,
+                functionName: 'getTokenInfo',
+                args: [tokenId],
+            }),
+            publicClient.readContract({
+                address: contractAddress,
+                abi: ZORA_1155_ABI,
+                functionName: 'mintFee',
+            }).catch(() => BigInt(0)),
+        ]);
+
+        // Tokens that were never set up read back as empty
+        if (tokenInfo.uri === '' && tokenInfo.maxSupply === BigInt(0)) {
+            throw new Error(`Zora 1155 token ${tokenId} does not exist on ${contractAddress}`);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const inWindow = (start: number, end: number) => now >= start && (end === 0 || now < end);
+        const soldOut = tokenInfo.maxSupply > BigInt(0) && tokenInfo.totalMinted >= tokenInfo.maxSupply;
+
+        const stages: MintStage[] = [];
+        const minters: Record<string, `0x${string}`> = {};
+        let mintPrice = BigInt(0);
+        let maxPerWallet: bigint | undefined;
+        let eligibility: PlatformContractInfo['eligibility'];
+
+        for (const minter of await this.findMinters(publicClient, contractAddress, tokenId)) {
+            // Fixed price strategy
+            const sale = await publicClient.readContract({
+                address: minter,
+                abi: ZORA_MINTER_ABI,
+                functionName: 'sale',
+                args: [contractAddress, tokenId],
+            }).catch(() => null);
+
+            if (sale && sale.saleStart + sale.saleEnd > BigInt(0) && !minters.public) {
+                const startTime = Number(sale.saleStart);
+                const endTime = Number(sale.saleEnd);
+                minters.public = minter;
+                mintPrice = sale.pricePerToken;
+                maxPerWallet = sale.maxTokensPerAddress > BigInt(0) ? sale.maxTokensPerAddress : undefined;
+                stages.push({
+                    id: 'public',
+                    name: 'Fixed Price Sale',
+                    price: sale.pricePerToken,
+                    startTime,
+                    endTime,
+                    maxPerWallet,
+                    isActive: inWindow(startTime, endTime) && !soldOut,
+                });
+
+                if (options.wallet && maxPerWallet !== undefined) {
+                    const minted = await publicClient.readContract({
+                        address: minter,
+                        abi: ZORA_MINTER_ABI,
+                        functionName: 'getMintedPerWallet',
+                        args: [contractAddress, tokenId, options.wallet as `0x${string}`],
+                    }).catch(() => undefined);
+                    if (minted !== undefined) {
+                        eligibility = minted < maxPerWallet
+                            ? { eligible: true }
+                            : { eligible: false, reason: `Wallet limit reached (${minted}/${maxPerWallet})` };
+                    }
+                }
+                continue;
+            }
+
+            // Merkle strategy
+            const merkle = await publicClient.readContract({
+                address: minter,
+                abi: ZORA_MINTER_ABI,
+                functionName: 'allowedMerkles',
+                args: [contractAddress, tokenId],
+            }).catch(() => null);
+
+            if (merkle && merkle.merkleRoot !== ZERO_ROOT && !minters.allowlist) {
+                const startTime = Number(merkle.presaleStart);
+                const endTime = Number(merkle.presaleEnd);
+                minters.allowlist = minter;
+                stages.push({
+                    id: 'allowlist',
+                    name: 'Allowlist',
+                    startTime,
+                    endTime,
+                    gate: `Merkle ${merkle.merkleRoot.slice(0, 10)}…`,
+                    merkleRoot: merkle.merkleRoot,
+                    isActive: inWindow(startTime, endTime) && !soldOut,
+                });
+            }
+        }
+
+        if (stages.length === 0) {
+            console.warn(`⚠️ No sale strategy found for Zora 1155 token ${tokenId}`);
+        }
+
+        console.log(`📋 Zora 1155 Token #${tokenId}: ${tokenInfo.totalMinted}/${tokenInfo.maxSupply} minted, fee ${mintFee} wei`);
+        Object.entries(minters).forEach(([stage, minter]) => console.log(`   ${stage} minter: ${minter}`));
+
+        return {
+            address: contractAddress,
+            name: name as string,
+            chainId,
+            platform: 'zora',
+            tokenStandard: 'ERC1155',
+            mintFunction: 'mint(address,uint256,uint256,address[],bytes)',
+            mintPrice,
+            protocolFee: mintFee,
+            creatorFee: BigInt(0),
+            getTotalValue: (quantity: number) => (mintPrice + mintFee) * BigInt(quantity),
+            isActive: stages.some(stage => stage.isActive),
+            totalSupply: tokenInfo.totalMinted,
+            maxSupply: tokenInfo.maxSupply,
+            maxPerWallet,
+            tokenId,
+            minters,
+            stages,
+            eligibility,
+        };
+    }
+
+    /**
+     * Addresses holding the minter permission for a token: Zora's own strategies plus
+     * any granted through UpdatedPermissions (token-level or contract-wide on token 0)
+     */
+    private async findMinters(
+        publicClient: PublicClient,
+        contractAddress: `0x${string}`,
+        tokenId: bigint
+    ): Promise<`0x${string}`[]> {
+        const candidates = new Set<`0x${string}`>(KNOWN_MINTERS);
+
+        try {
+            const logs = await publicClient.getContractEvents({
+                address: contractAddress,
+                abi: ZORA_1155_ABI,
+                eventName: 'UpdatedPermissions',
+                args: { tokenId: [tokenId, BigInt(0)] },
+                fromBlock: 'earliest',
+            });
+            for (const log of logs) {
+                if (log.args.user && log.args.permissions !== undefined &&
+                    (log.args.permissions & PERMISSION_BIT_MINTER) !== BigInt(0)) {
+                    candidates.add(log.args.user);
+                }
+            }
+        } catch { /* RPC refused the log range - fall back to the known strategies */ }
+
+        const minters: `0x${string}`[] = [];
+        for (const candidate of candidates) {
+            const [tokenBits, contractBits] = await Promise.all([
+                publicClient.readContract({
+                    address: contractAddress,
+                    abi: ZORA_1155_ABI,
+                    functionName: 'permissions',
+                    args: [tokenId, candidate],
+                }).catch(() => BigInt(0)),
+                publicClient.readContract({
+                    address: contractAddress,
+                    abi: ZORA_1155_ABI,
+                    functionName: 'permissions',
+                    args: [BigInt(0), candidate],
+                }).catch(() => BigInt(0)),
+            ]);
+            if (((tokenBits | contractBits) & PERMISSION_BIT_MINTER) !== BigInt(0)) {
+                minters.push(candidate);
+            }
+        }
+
+        return minters;
+    }
+
+    private async is1155Creator(publicClient: PublicClient, address: `0x${string}`): Promise<boolean> {
+        if (await readTokenStandard(publicClient, address) !== 'ERC1155') return false;
+        try {
+            await publicClient.readContract({
+                address,
+                abi: ZORA_1155_ABI,
+                functionName: 'getTokenInfo',
+                args: [BigInt(0)],
+            });
+            return true;
+        } catch {
+            return false;
+        }
+    }
 }
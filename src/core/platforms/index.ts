@@ -1,6 +1,8 @@
 // Platform Module Exports
 export { PlatformManager, getPlatformManager } from './PlatformManager';
-export type { PlatformModule, PlatformContractInfo } from './PlatformManager';
+export { buildSignatureCall, buildArgsCall, readPaymentToken, readTokenStandard, linearQuote, quoteFromCall } from './PlatformManager';
+export { auctionPriceAt, auctionTimeAt, auctionSchedule, detectionSignal, detectionFrom, MIN_DETECTION_CONFIDENCE, stageAllowlistStatus, packedAddressAllowlist } from './PlatformManager';
+export type { PlatformModule, PlatformContractInfo, MintCall, MintStage, MintCredentials, AnalyzeOptions, PaymentToken, ClaimTarget, PriceQuote, QuoteOptions, DutchAuctionCurve, MintRecord, RefundStatus, DetectionSignal, PlatformDetection, DetectionReport, RegisteredPlatform, AllowlistEntry, AllowlistEncoding } from './PlatformManager';
 
 // Individual Platform Modules
 export { NFTs2MeModule } from './NFTs2MeModule';
@@ -11,6 +13,7 @@ export { DutchAuctionModule } from './DutchAuctionModule';
 export { ThirdwebModule } from './ThirdwebModule';
 export { ZoraModule } from './ZoraModule';
 export { ManifoldModule } from './ManifoldModule';
+export { DeclarativeModule, parsePlatformDefinition } from './DeclarativeModule';
 
 // Initialize all modules with the platform manager
 import { getPlatformManager } from './PlatformManager';
@@ -22,23 +25,68 @@ import { DutchAuctionModule } from './DutchAuctionModule';
 import { ThirdwebModule } from './ThirdwebModule';
 import { ZoraModule } from './ZoraModule';
 import { ManifoldModule } from './ManifoldModule';
+import { DeclarativeModule, parsePlatformDefinition } from './DeclarativeModule';
+import { getStoredDefinitions, saveDefinition, removeDefinition, type PlatformDefinition } from '../../config/platformDefinitions';
 
 /**
  * Initialize the platform manager with all available modules
- * Call this once at app startup
+ * Call at app startup; repeat calls are harmless
  */
 export function initializePlatformModules(chainId?: number): void {
     const manager = getPlatformManager(chainId);
 
-    // Register all platform modules (order matters - more specific first)
-    manager.registerModule(new NFTs2MeModule());
-    manager.registerModule(new SeaDropModule());
-    manager.registerModule(new MagicEdenModule());
-    manager.registerModule(new ScatterModule());
-    manager.registerModule(new DutchAuctionModule());
-    manager.registerModule(new ThirdwebModule());
-    manager.registerModule(new ZoraModule());
-    manager.registerModule(new ManifoldModule());
+    // Register all platform modules (priority: more specific first). Safe to call again -
+    // modules are keyed by name, so repeat calls replace rather than duplicate them.
+    manager.registerModule(new NFTs2MeModule(), 10);
+    manager.registerModule(new SeaDropModule(), 20);
+    manager.registerModule(new MagicEdenModule(), 30);
+    manager.registerModule(new ScatterModule(), 40);
+    manager.registerModule(new DutchAuctionModule(), 50);
+    manager.registerModule(new ThirdwebModule(), 60);
+    manager.registerModule(new ZoraModule(), 70);
+    manager.registerModule(new ManifoldModule(), 80);
+
+    // Declarative (JSON) platforms saved in this browser
+    for (const stored of getStoredDefinitions()) {
+        try {
+            const definition = parsePlatformDefinition(stored);
+            manager.registerModule(new DeclarativeModule(definition), definition.priority);
+        } catch (e) {
+            console.warn(`⚠️ Skipping platform definition "${stored?.name}": ${e instanceof Error ? e.message : e}`);
+        }
+    }
 
     console.log('✅ Platform modules initialized:', manager.getRegisteredPlatforms());
 }
+
+/**
+ * Validate a JSON platform definition, register it and save it for next time.
+ * Replaces an earlier definition of the same name; built-in modules can't be replaced.
+ */
+export function installPlatformDefinition(input: unknown, chainId?: number): PlatformDefinition {
+    const definition = parsePlatformDefinition(input);
+    const manager = getPlatformManager(chainId);
+    const existing = manager.getModule(definition.name);
+
+    if (definition.name.toLowerCase() === 'generic' || (existing && !(existing instanceof DeclarativeModule))) {
+        throw new Error(`${definition.name} is a built-in platform - pick another name`);
+    }
+
+    manager.unregisterModule(definition.name);
+    manager.registerModule(new DeclarativeModule(definition), definition.priority);
+    saveDefinition(definition);
+    return definition;
+}
+
+/**
+ * Unregister and forget a JSON platform definition
+ */
+export function uninstallPlatformDefinition(name: string, chainId?: number): boolean {
+    const manager = getPlatformManager(chainId);
+    if (manager.getModule(name) && !(manager.getModule(name) instanceof DeclarativeModule)) {
+        throw new Error(`${name} is a built-in platform - use 'platform disable ${name}' instead`);
+    }
+
+    manager.unregisterModule(name);
+    return removeDefinition(name);
+}
@@ -0,0 +1,199 @@
+/**
+ * ABI Argument Utility
+ * Parses command-line values into typed arguments for any function signature
+ */
+import { isAddress, parseAbiItem, type Abi, type AbiFunction, type AbiParameter } from 'viem';
+
+/**
+ * Values substituted for placeholders: {qty} -> quantity, {me} -> wallet
+ */
+export interface ArgContext {
+    qty: number;
+    me: string;
+}
+
+/**
+ * Split values on whitespace/commas, keeping [..] and (..) groups and quoted strings whole
+ */
+export function splitArgs(input: string): string[] {
+    const values: string[] = [];
+    let current = '';
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (const char of input) {
+        if (quote) {
+            current += char;
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+            current += char;
+        } else if (char === '[' || char === '(') {
+            depth++;
+            current += char;
+        } else if (char === ']' || char === ')') {
+            depth--;
+            current += char;
+        } else if (depth === 0 && (char === ',' || /\s/.test(char))) {
+            if (current) values.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current) values.push(current);
+
+    return values;
+}
+
+function unquote(raw: string): string {
+    return /^(['"]).*\1$/.test(raw) ? raw.slice(1, -1) : raw;
+}
+
+// Contents of a [..] or (..) group, split into its values
+function groupValues(raw: string, param: AbiParameter): string[] {
+    if (!/^[[(].*[\])]$/.test(raw)) {
+        throw new Error(`${param.name || param.type}: expected [..] or (..), got ${raw}`);
+    }
+    return splitArgs(raw.slice(1, -1));
+}
+
+/**
+ * Convert one value to the parameter's ABI type
+ */
+export function parseAbiArg(param: AbiParameter, raw: string, context: ArgContext): unknown {
+    const label = param.name || param.type;
+    const value = unquote(raw.trim())
+        .replace(/^\{qty\}$/, String(context.qty))
+        .replace(/^\{me\}$/, context.me);
+
+    // Arrays: T[] or T[N]
+    const array = param.type.match(/^(.*)\[(\d*)\]$/);
+    if (array) {
+        const items = groupValues(value, param);
+        if (array[2] && items.length !== Number(array[2])) {
+            throw new Error(`${label}: expected ${array[2]} items, got ${items.length}`);
+        }
+        const inner = { ...param, type: array[1] } as AbiParameter;
+        return items.map(item => parseAbiArg(inner, item, context));
+    }
+
+    if (param.type === 'tuple') {
+        const components = 'components' in param ? param.components : [];
+        const items = groupValues(value, param);
+        if (items.length !== components.length) {
+            throw new Error(`${label}: expected ${components.length} fields, got ${items.length}`);
+        }
+        return components.map((component, i) => parseAbiArg(component, items[i], context));
+    }
+
+    if (param.type === 'address') {
+        if (!isAddress(value)) throw new Error(`${label}: invalid address ${value}`);
+        return value;
+    }
+
+    const integer = param.type.match(/^(u?)int(\d*)$/);
+    if (integer) {
+        let n: bigint;
+        try {
+            n = BigInt(value);
+        } catch {
+            throw new Error(`${label}: invalid integer ${value}`);
+        }
+        const bits = BigInt(integer[2] || 256);
+        const [min, max] = integer[1]
+            ? [BigInt(0), (BigInt(1) << bits) - BigInt(1)]
+            : [-(BigInt(1) << (bits - BigInt(1))), (BigInt(1) << (bits - BigInt(1))) - BigInt(1)];
+        if (n < min || n > max) throw new Error(`${label}: ${value} out of range for ${param.type}`);
+        return n;
+    }
+
+    if (param.type === 'bool') {
+        if (value === 'true' || value === '1') return true;
+        if (value === 'false' || value === '0') return false;
+        throw new Error(`${label}: expected true/false, got ${value}`);
+    }
+
+    const fixedBytes = param.type.match(/^bytes(\d+)$/);
+    if (fixedBytes) {
+        if (!new RegExp(`^0x[0-9a-fA-F]{${Number(fixedBytes[1]) * 2}}$`).test(value)) {
+            throw new Error(`${label}: expected ${fixedBytes[1]} bytes of hex, got ${value}`);
+        }
+        return value;
+    }
+
+    if (param.type === 'bytes') {
+        if (!/^0x([0-9a-fA-F]{2})*$/.test(value)) throw new Error(`${label}: invalid hex bytes ${value}`);
+        return value;
+    }
+
+    if (param.type === 'string') return value;
+
+    throw new Error(`Unsupported parameter type: ${param.type}`);
+}
+
+/**
+ * Convert a function's values, one per input
+ */
+export function parseAbiArgs(fn: AbiFunction, values: string[], context: ArgContext): unknown[] {
+    if (values.length !== fn.inputs.length) {
+        throw new Error(`${fn.name} takes ${fn.inputs.length} argument(s), got ${values.length}`);
+    }
+    return fn.inputs.map((input, i) => parseAbiArg(input, values[i], context));
+}
+
+/**
+ * Resolve a full signature ('mint(address,uint256)') or a bare name looked up in the ABI,
+ * using the argument count to pick between overloads. A signature without a mutability
+ * keyword is taken as payable, so a mint can carry its price.
+ */
+export function resolveAbiFunction(nameOrSignature: string, abi?: Abi, argCount?: number): AbiFunction {
+    if (nameOrSignature.includes('(')) {
+        const signature = nameOrSignature.replace(/^function\s+/, '');
+
+        // Split after the parameter list so the keyword lands before any `returns (...)`
+        let depth = 0;
+        let end = signature.length;
+        for (let i = signature.indexOf('('); i < signature.length; i++) {
+            if (signature[i] === '(') depth++;
+            if (signature[i] === ')' && --depth === 0) {
+                end = i + 1;
+                break;
+            }
+        }
+        const head = signature.slice(0, end);
+        const tail = signature.slice(end);
+        const mutability = /^\s*(payable|nonpayable|view|pure)\b/.test(tail) ? '' : ' payable';
+
+        const item = parseAbiItem(`function ${head}${mutability}${tail}`);
+        if (item.type !== 'function') throw new Error(`Invalid function signature: ${nameOrSignature}`);
+        return item;
+    }
+
+    const matches = (abi || []).filter((item): item is AbiFunction => item.type === 'function' && item.name === nameOrSignature);
+    const match = matches.find(fn => argCount === undefined || fn.inputs.length === argCount) || matches[0];
+    if (!match) {
+        throw new Error(`${nameOrSignature} is not in the contract ABI - give the full signature, e.g. ${nameOrSignature}(uint256)`);
+    }
+    return match;
+}
+
+function formatAbiValue(value: unknown): string {
+    if (typeof value === 'bigint') return value.toString();
+    if (Array.isArray(value)) return `[${value.map(formatAbiValue).join(', ')}]`;
+    // Structs decode to objects keyed by component name
+    if (value && typeof value === 'object') {
+        return `(${Object.entries(value).map(([key, v]) => `${key}: ${formatAbiValue(v)}`).join(', ')})`;
+    }
+    return String(value);
+}
+
+/**
+ * One line per return value ('uint256 balance: 5'). Without declared outputs the result is raw data.
+ */
+export function formatAbiResult(fn: AbiFunction, result: unknown): string[] {
+    if (fn.outputs.length === 0) return [String(result)];
+
+    const values = fn.outputs.length === 1 ? [result] : result as unknown[];
+    return fn.outputs.map((output, i) => `${output.type}${output.name ? ` ${output.name}` : ''}: ${formatAbiValue(values[i])}`);
+}
@@ -0,0 +1,106 @@
+/**
+ * Merkle Tree Utility
+ * Sorted-pair keccak256 trees, as verified by OpenZeppelin's and Solady's MerkleProof
+ */
+import { concat, keccak256 } from 'viem';
+
+type Hex = `0x${string}`;
+
+/**
+ * How the leaves are arranged into a tree. Proofs only verify against the root the
+ * allowlist owner published, so the layout must match the tool they built it with:
+ *   ordered  - leaves in list order, an odd node is carried up (merkletreejs, sortPairs)
+ *   sorted   - the same with the leaves sorted first (merkletreejs, sortLeaves/sort)
+ *   standard - OpenZeppelin SimpleMerkleTree: sorted leaves in a complete binary tree. Leaves
+ *              are used as given, so StandardMerkleTree roots (double-hashed leaves) won't match
+ */
+export type MerkleLayout = 'ordered' | 'sorted' | 'standard';
+
+export const MERKLE_LAYOUTS: MerkleLayout[] = ['ordered', 'sorted', 'standard'];
+
+export interface MerkleTree {
+    root: Hex;
+    layout: MerkleLayout;
+    // Sibling path for a leaf (empty when the leaf isn't in the tree or is the only one)
+    proof(leaf: Hex): Hex[];
+}
+
+function compareHex(a: Hex, b: Hex): number {
+    const x = BigInt(a);
+    const y = BigInt(b);
+    return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function hashPair(a: Hex, b: Hex): Hex {
+    return compareHex(a, b) <= 0 ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+function layeredTree(leaves: Hex[], layout: MerkleLayout): MerkleTree {
+    const layers: Hex[][] = [layout === 'sorted' ? [...leaves].sort(compareHex) : leaves];
+    while (layers[layers.length - 1].length > 1) {
+        const layer = layers[layers.length - 1];
+        const next: Hex[] = [];
+        for (let i = 0; i < layer.length; i += 2) {
+            next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+        }
+        layers.push(next);
+    }
+
+    return {
+        root: layers[layers.length - 1][0],
+        layout,
+        proof(leaf) {
+            let index = layers[0].findIndex(node => node.toLowerCase() === leaf.toLowerCase());
+            if (index === -1) return [];
+
+            const proof: Hex[] = [];
+            for (const layer of layers.slice(0, -1)) {
+                const sibling = index % 2 === 0 ? index + 1 : index - 1;
+                if (sibling < layer.length) proof.push(layer[sibling]);
+                index = Math.floor(index / 2);
+            }
+            return proof;
+        },
+    };
+}
+
+function standardTree(leaves: Hex[]): MerkleTree {
+    const sorted = [...leaves].sort(compareHex);
+    const tree: Hex[] = new Array(2 * sorted.length - 1);
+    sorted.forEach((leaf, i) => { tree[tree.length - 1 - i] = leaf; });
+    for (let i = tree.length - 1 - sorted.length; i >= 0; i--) {
+        tree[i] = hashPair(tree[2 * i + 1], tree[2 * i + 2]);
+    }
+
+    return {
+        root: tree[0],
+        layout: 'standard',
+        proof(leaf) {
+            const position = sorted.findIndex(node => node.toLowerCase() === leaf.toLowerCase());
+            if (position === -1) return [];
+
+            const proof: Hex[] = [];
+            let index = tree.length - 1 - position;
+            while (index > 0) {
+                proof.push(tree[index % 2 === 0 ? index - 1 : index + 1]);
+                index = Math.floor((index - 1) / 2);
+            }
+            return proof;
+        },
+    };
+}
+
+/**
+ * Build a tree over already-hashed leaves
+ */
+export function buildMerkleTree(leaves: Hex[], layout: MerkleLayout = 'ordered'): MerkleTree {
+    if (leaves.length === 0) throw new Error('Cannot build a Merkle tree with no leaves');
+    return layout === 'standard' ? standardTree(leaves) : layeredTree(leaves, layout);
+}
+
+/**
+ * Check a proof the way the contract will
+ */
+export function verifyMerkleProof(leaf: Hex, proof: Hex[], root: Hex): boolean {
+    return proof.reduce(hashPair, leaf).toLowerCase() === root.toLowerCase();
+}
@@ -0,0 +1,57 @@
+/**
+ * Revert Decoding Utility
+ * Turns a failed eth_call/estimate into a readable reason
+ */
+import { decodeErrorResult, type Abi } from 'viem';
+
+// Common NFT custom error selectors
+export const ERROR_SELECTORS: Record<string, string> = {
+    '0xc288bf8f': 'MintNotActive() - The mint is not currently active',
+    '0x3c55b53b': 'SaleNotStarted() - Sale has not started yet',
+    '0x6f7eac26': 'MaxSupplyReached() - No more tokens available',
+    '0x8e4a23d6': 'ExceedsWalletLimit() - You have reached the max per wallet',
+    '0xb1baf4f3': 'InsufficientPayment() - Not enough ETH sent',
+    '0x21d5efb2': 'InvalidMintAmount() - Invalid quantity',
+    '0x2c5211c6': 'InvalidProof() - Allowlist proof invalid',
+    '0xcd786059': 'InvalidPrice() - Incorrect price sent',
+    '0x646cf558': 'Paused() - Contract is paused',
+    '0xa1d1e8d6': 'NotWhitelisted() - Not on allowlist',
+};
+
+// The parts of a viem error the reason can come from
+interface RevertError {
+    shortMessage?: string;
+    details?: string;
+    cause?: { reason?: string; shortMessage?: string; cause?: { data?: unknown } };
+}
+
+/**
+ * Best available reason for a revert: the contract's own error (decoded with its ABI when known),
+ * a known custom error, then the node's/viem's message
+ */
+export function decodeRevertReason(error: unknown, abi?: Abi): string {
+    const e = (error || {}) as RevertError;
+
+    // Try to extract error selector from RPC response
+    const rpcData = e.cause?.cause?.data;
+    if (typeof rpcData === 'string' && rpcData.length >= 10) {
+        if (abi) {
+            try {
+                const { errorName, args } = decodeErrorResult({ abi, data: rpcData as `0x${string}` });
+                return `${errorName}(${(args || []).map(String).join(', ')})`;
+            } catch {
+                // Not in the ABI - fall through to the known selectors
+            }
+        }
+
+        const errorSelector = rpcData.slice(0, 10);
+        return ERROR_SELECTORS[errorSelector] || `Custom Error: ${errorSelector} (Check contract source for meaning)`;
+    }
+
+    // Fallback to other error sources
+    return e.cause?.reason
+        || e.cause?.shortMessage
+        || e.shortMessage
+        || e.details
+        || 'Execution reverted';
+}